@@ -6,10 +6,12 @@ import LogSymbols from 'log-symbols'
 import Table from 'cli-table3'
 import colors from 'colors/safe'
 
-import BaseCommand from '../utils'
+import BaseCommand, { BytesInMb } from '../utils'
 import Agreement from '../models/agreement.model'
 import JobModel from '../models/job.model'
+import JobAttemptModel from '../models/job-attempt.model'
 import { JobState } from '../definitions'
+import { UNPIN_JOB_TYPE } from '../providers'
 import { IConfig } from '@oclif/config'
 import { OutputFlags } from '@oclif/parser'
 
@@ -22,9 +24,9 @@ const statusFilter = (agreement: AgreementWithJobs, status: FilterStatus | undef
   (status === FilterStatus.active && agreement.isActive) ||
   (status === FilterStatus.inactive && !agreement.isActive)
 
-const pinningStatusFilter = (job: JobModel, pinningStatuses: JobState[] | undefined): boolean =>
+const pinningStatusFilter = (job: JobModel | undefined, pinningStatuses: JobState[] | undefined): boolean =>
   !pinningStatuses ||
-  pinningStatuses.includes(job.state as JobState)
+  pinningStatuses.includes(job?.state as JobState)
 
 export default class AgreementsCommand extends BaseCommand {
   static flags = {
@@ -43,8 +45,11 @@ export default class AgreementsCommand extends BaseCommand {
     pinningStatus: flags.string({
       char: 'p',
       description: 'Filter by pinning status',
-      options: [JobState.RUNNING, JobState.BACKOFF, JobState.CREATED, JobState.FINISHED, JobState.ERRORED],
+      options: [JobState.RUNNING, JobState.BACKOFF, JobState.CREATED, JobState.FINISHED, JobState.ERRORED, JobState.INTERRUPTED, JobState.CANCELLED],
       multiple: true
+    }),
+    detail: flags.string({
+      description: 'Shows detail of the Agreement with the history of its Jobs and their attempts'
     })
   }
 
@@ -56,7 +61,8 @@ export default class AgreementsCommand extends BaseCommand {
     '$ rif-pinning agreements --ls -f active',
     '$ rif-pinning agreements --ls -f inactive',
     '$ rif-pinning agreements --ls -f inactive -p pinned',
-    '$ rif-pinning agreements --ls -f active -p not-pinned'
+    '$ rif-pinning agreements --ls -f active -p not-pinned',
+    '$ rif-pinning agreements --detail 0x123'
   ]
 
   constructor (argv: string[], config: IConfig) {
@@ -80,9 +86,11 @@ export default class AgreementsCommand extends BaseCommand {
     return agreement.isActive ? LogSymbols.success : LogSymbols.error
   }
 
-  static getJobInfo (agreement: AgreementWithJobs): string {
-    const [latestJob] = agreement.jobs
+  static getLatestJob (agreement: AgreementWithJobs, isUnpin = false): JobModel | undefined {
+    return agreement.jobs.find(job => (job.type === UNPIN_JOB_TYPE) === isUnpin)
+  }
 
+  static getJobInfo (latestJob: JobModel | undefined): string {
     if (!latestJob) return ''
 
     switch (latestJob.state) {
@@ -94,6 +102,10 @@ export default class AgreementsCommand extends BaseCommand {
       case JobState.BACKOFF:
       case JobState.RUNNING:
         return colors.yellow(latestJob.state.toUpperCase())
+      case JobState.INTERRUPTED:
+        return colors.magenta(latestJob.state.toUpperCase())
+      case JobState.CANCELLED:
+        return colors.gray(latestJob.state.toUpperCase())
       default:
         return latestJob.state.toUpperCase()
     }
@@ -116,13 +128,14 @@ export default class AgreementsCommand extends BaseCommand {
       AgreementsCommand.getStatus(agreement),
       `${agreement.agreementReference} ${agreement.dataReference}`,
       AgreementsCommand.expireIn(agreement),
-      AgreementsCommand.getJobInfo(agreement)
+      AgreementsCommand.getJobInfo(AgreementsCommand.getLatestJob(agreement)),
+      AgreementsCommand.getJobInfo(AgreementsCommand.getLatestJob(agreement, true))
     ]
   }
 
   static filterAgreement (agreement: AgreementWithJobs, filters: AgreementFilters): Array<Agreement> {
     const { status, pinningStatus } = filters
-    const [latestJob] = agreement.jobs
+    const latestJob = AgreementsCommand.getLatestJob(agreement)
 
     return statusFilter(agreement, status) && pinningStatusFilter(latestJob, pinningStatus)
       ? [agreement]
@@ -133,8 +146,11 @@ export default class AgreementsCommand extends BaseCommand {
     const agreements = await Agreement.findAll() as any[]
     const jobs = await JobModel.findAll({
       raw: true,
-      order: [['finish', 'DESC']],
-      where: { name: { [Op.in]: agreements.map(a => a.dataReference) } }
+      order: [['id', 'DESC']],
+      where: {
+        agreementReference: { [Op.in]: agreements.map(a => a.agreementReference) },
+        name: { [Op.in]: agreements.map(a => a.dataReference) }
+      }
     })
 
     return agreements.reduce(
@@ -142,7 +158,7 @@ export default class AgreementsCommand extends BaseCommand {
         agreement = Object.assign(
           agreement,
           {
-            jobs: jobs.filter(j => j.name === agreement.dataReference) || [],
+            jobs: jobs.filter(j => j.agreementReference === agreement.agreementReference && j.name === agreement.dataReference),
             isActive: agreement.hasSufficientFunds
           }
         )
@@ -156,14 +172,67 @@ export default class AgreementsCommand extends BaseCommand {
     )
   }
 
+  static prepareAttemptForTable (job: JobModel, attempt?: JobAttemptModel): string[] {
+    return [
+      `${job.id}`,
+      job.type,
+      attempt ? `${attempt.attempt}` : '-',
+      (attempt?.state ?? job.state).toUpperCase(),
+      attempt ? attempt.start.toISOString() : '-',
+      attempt ? `${(attempt.duration / 1000).toFixed(1)}s` : '-',
+      attempt ? `${(attempt.bytes / BytesInMb).toFixed(3)} MB` : '-',
+      attempt?.peer ?? '-',
+      attempt?.errorClass ? colors.red(`${attempt.errorClass}: ${attempt.errorMessage}`) : ''
+    ]
+  }
+
+  async showDetail (agreementReference: string): Promise<void> {
+    const agreement = await Agreement.findByPk(agreementReference)
+
+    if (!agreement) {
+      this.error(`Agreement ${agreementReference} was not found!`)
+    }
+
+    const jobs = await JobModel.findAll({
+      where: { agreementReference },
+      include: [JobAttemptModel],
+      order: [['id', 'ASC'], [JobAttemptModel, 'attempt', 'ASC']]
+    })
+
+    const table = new Table({
+      head: ['Job', 'Type', 'Attempt', 'State', 'Started', 'Duration', 'Fetched', 'Peer', 'Error'].map(colors.bold),
+      wordWrap: true,
+      style: { head: [] }
+    })
+
+    for (const job of jobs) {
+      const rows = job.attempts.length > 0
+        ? job.attempts.map(attempt => AgreementsCommand.prepareAttemptForTable(job, attempt))
+        : [AgreementsCommand.prepareAttemptForTable(job)]
+      table.push(...rows)
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(`Agreement ${agreement.agreementReference} (${agreement.status})`)
+    // eslint-disable-next-line no-console
+    console.log(`Data reference: ${agreement.dataReference}, expires in: ${AgreementsCommand.expireIn(agreement)}`)
+    // eslint-disable-next-line no-console
+    console.log(table.toString())
+  }
+
   // eslint-disable-next-line require-await
   async run (): Promise<void> {
-    const { flags: { status, pinningStatus } } = this.parsedArgs
+    const { flags: { status, pinningStatus, detail } } = this.parsedArgs
+
+    if (detail) {
+      await this.showDetail(detail)
+      this.exit()
+    }
 
     const table = new Table({
-      head: ['', 'Reference', 'Expire in', 'Pinning Status'].map(colors.bold),
+      head: ['', 'Reference', 'Expire in', 'Pinning Status', 'Unpinning Status'].map(colors.bold),
       colWidths: [3, 68],
-      colAligns: ['center', 'center', 'center', 'left'],
+      colAligns: ['center', 'center', 'center', 'left', 'left'],
       wordWrap: true,
       style: { head: [] }
     })
@@ -35,11 +35,14 @@ export default class CleanupCommand extends BaseCommand {
 
     // Unpin agreements
     for (const agreement of await Agreement.findAll()) {
-      await provider.unpin(agreement.dataReference)
+      await provider.unpin(agreement.dataReference, agreement.agreementReference)
         .catch(e => {
           logger.warn(e)
         })
     }
+
+    // Unpinning runs as Jobs in background, they have to finish before the DB is purged
+    await provider.jobsManager.idle()
   }
 
   async run (): Promise<void> {
@@ -0,0 +1,133 @@
+import config from 'config'
+import ipfsClient from 'ipfs-http-client'
+import type { ClientOptions } from 'ipfs-http-client/src/lib/core'
+import Table from 'cli-table3'
+import colors from 'colors/safe'
+import BigNumber from 'bignumber.js'
+import { flags } from '@oclif/command'
+import { OutputFlags } from '@oclif/parser'
+import { IConfig } from '@oclif/config'
+
+import BaseCommand, { duplicateObject } from '../utils'
+import { IpfsClusterOptions, IpfsNodeOptions } from '../definitions'
+import { findOrphanedPins, OrphanedPin, removeOrphanedPins } from '../reconciliation'
+import type { IpfsClient } from '../providers/ipfs'
+
+/**
+ * Normalizes URL of the IPFS node's API so the same nodes are matched regardless of the trailing slash.
+ *
+ * @param url
+ */
+function normalizeUrl (url?: ClientOptions['url']): string | undefined {
+  return url?.toString().replace(/\/+$/, '')
+}
+
+export default class ReconcileCommand extends BaseCommand {
+  static flags = {
+    ...BaseCommand.flags,
+    unpin: flags.boolean({
+      char: 'u',
+      description: 'Unpin the orphaned pins',
+      default: false
+    }),
+    gc: flags.boolean({
+      description: 'Run garbage collection of IPFS repo after unpinning',
+      default: false,
+      dependsOn: ['unpin']
+    })
+  }
+
+  static description = 'Reports pins in IPFS that do not belong to any Agreement nor are in the allow-list'
+
+  static examples = [
+    '$ rif-pinning reconcile',
+    '$ rif-pinning reconcile --db myOffer.sqlite',
+    '$ rif-pinning reconcile --unpin --gc'
+  ]
+
+  constructor (argv: string[], config: IConfig) {
+    super(argv, config, { db: { migrate: true } })
+  }
+
+  /**
+   * Returns clients of all the IPFS nodes that the Agreements are pinned on, together with
+   * the values of Agreement.ipfsNode that the node's pins are compared with.
+   *
+   * Without sharding the default node keeps all the Agreements. With sharding the default node keeps
+   * the Agreements that are not assigned to any of the configured nodes; when it is one of the
+   * configured nodes (eq. has the same URL) it is scanned only as that node, otherwise separately.
+   */
+  static getIpfsNodes (): Array<[string, IpfsClient, Array<string | null> | undefined]> {
+    const defaultOptions = duplicateObject(config.get<ClientOptions>('ipfs.clientOptions'))
+    const nodes = duplicateObject(config.get<IpfsNodeOptions[]>('ipfs.nodes'))
+
+    if (nodes.length === 0) {
+      return [['default', ipfsClient(defaultOptions), undefined]]
+    }
+
+    const defaultUrl = normalizeUrl(defaultOptions.url)
+    const shards = nodes.map(({ name, clientOptions }): [string, IpfsClient, Array<string | null>] => {
+      const isDefault = defaultUrl !== undefined && normalizeUrl(clientOptions.url) === defaultUrl
+      return [name, ipfsClient(clientOptions), isDefault ? [name, null] : [name]]
+    })
+
+    if (shards.some(([, , ipfsNodes]) => ipfsNodes.includes(null))) {
+      return shards
+    }
+
+    return [['default', ipfsClient(defaultOptions), [null]], ...shards]
+  }
+
+  static prepareOrphanForTable (node: string, orphan: OrphanedPin): string[] {
+    return [
+      node,
+      orphan.cid.toString(),
+      orphan.size === null ? '-' : `${orphan.size.toFixed(3)} MB`
+    ]
+  }
+
+  async run (): Promise<void> {
+    const { flags: originalFlags } = this.parsedArgs
+    const flags = originalFlags as OutputFlags<typeof ReconcileCommand.flags>
+
+    if (config.get<IpfsClusterOptions>('ipfsCluster').enabled) {
+      this.error('Reconciliation of pins managed by IPFS Cluster is not supported')
+    }
+
+    const table = new Table({
+      head: ['IPFS node', 'CID', 'Size'].map(colors.bold),
+      style: { head: [] }
+    })
+    let totalSize = new BigNumber(0)
+    let unpinned = 0
+
+    for (const [name, ipfs, ipfsNode] of ReconcileCommand.getIpfsNodes()) {
+      this.spinner.start(`Looking for orphaned pins on IPFS node ${name}...`)
+      const orphans = await findOrphanedPins(ipfs, ipfsNode)
+      this.spinner.stop()
+
+      for (const orphan of orphans) {
+        table.push(ReconcileCommand.prepareOrphanForTable(name, orphan))
+        totalSize = totalSize.plus(orphan.size ?? 0)
+      }
+
+      if (flags.unpin && orphans.length > 0) {
+        this.spinner.start(`Unpinning orphaned pins on IPFS node ${name}...`)
+        unpinned += await removeOrphanedPins(ipfs, orphans, { gc: flags.gc })
+        this.spinner.stop()
+      }
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(table.toString())
+    // eslint-disable-next-line no-console
+    console.log(`Found ${table.length} orphaned pin(s) taking ${totalSize.toFixed(3)} MB`)
+
+    if (flags.unpin) {
+      // eslint-disable-next-line no-console
+      console.log(`Unpinned ${unpinned} orphaned pin(s)`)
+    }
+
+    this.exit()
+  }
+}
@@ -0,0 +1,63 @@
+import config from 'config'
+import Table from 'cli-table3'
+import colors from 'colors/safe'
+import { IConfig } from '@oclif/config'
+
+import BaseCommand, { BytesInMb } from '../utils'
+import JobModel from '../models/job.model'
+import { JobState, PinTimeoutOptions } from '../definitions'
+import { getEffectiveRate, getThroughputStats, ThroughputStats } from '../throughput'
+import { PIN_JOB_TYPE } from '../providers/ipfs'
+
+const formatRate = (rate: number | null): string => rate === null ? '-' : `${(rate / BytesInMb).toFixed(3)} MB/s`
+
+export default class ThroughputCommand extends BaseCommand {
+  static flags = {
+    ...BaseCommand.flags
+  }
+
+  static description = 'Throughput of finished Jobs that is used for estimating the pinning timeouts'
+
+  static examples = [
+    '$ rif-pinning throughput',
+    '$ rif-pinning throughput --db myOffer.sqlite'
+  ]
+
+  constructor (argv: string[], config: IConfig) {
+    super(argv, config, { db: { migrate: true } })
+  }
+
+  static prepareStatsForTable (stats: ThroughputStats): string[] {
+    return [
+      stats.type,
+      stats.samples.toString(),
+      formatRate(stats.min),
+      formatRate(stats.median),
+      formatRate(stats.percentile),
+      formatRate(stats.max)
+    ]
+  }
+
+  async run (): Promise<void> {
+    const { percentile } = config.get<PinTimeoutOptions>('ipfs.pinTimeout')
+    const types = await JobModel.findAll({ attributes: ['type'], group: ['type'], where: { state: JobState.FINISHED } })
+
+    const table = new Table({
+      head: ['Job type', 'Samples', 'Min', 'Median', `${percentile}th percentile`, 'Max'].map(colors.bold),
+      style: { head: [] }
+    })
+
+    for (const { type } of types) {
+      table.push(ThroughputCommand.prepareStatsForTable(await getThroughputStats(type)))
+    }
+
+    const { rate, source } = getEffectiveRate(await getThroughputStats(PIN_JOB_TYPE))
+
+    // eslint-disable-next-line no-console
+    console.log(table.toString())
+    // eslint-disable-next-line no-console
+    console.log(`Pinning timeouts are computed using ${source} throughput ${formatRate(rate)}`)
+
+    this.exit()
+  }
+}
@@ -1,4 +1,5 @@
 import config from 'config'
+import parse from 'parse-duration'
 
 import { initCacheTransport, initLibp2pTransport } from './transport'
 import { loggingFactory } from '../logger'
@@ -6,7 +7,14 @@ import type {
   AgreementInfoPayload,
   HashInfoPayload,
   RetryPayload,
+  RetryScheduledPayload,
+  JobErrorPayload,
+  PinTimeoutPayload,
+  RetryGaveUpPayload,
   AgreementSizeExceededPayload,
+  CapacityExceededPayload,
+  PinProgressPayload,
+  ProviderErrorPayload,
   CommsTransport
 } from '../definitions'
 import Message from '../models/message.model'
@@ -17,6 +25,18 @@ const COMMUNICATION_PROTOCOL_VERSION = 1
 
 let transport: CommsTransport
 
+// Timestamps of last progress messages per Agreement, removed once the pinning ends
+const lastProgress = new Map<string, number>()
+
+/**
+ * Returns true if the message ends the pinning, eq. the hash was pinned or the pinning failed.
+ *
+ * @param code
+ */
+function isTerminal (code: MessageCodesEnum): boolean {
+  return code === MessageCodesEnum.I_HASH_PINNED || code.startsWith('E_')
+}
+
 export async function start (offerId?: string, contractAddress?: string): Promise<void> {
   const transportType = config.get<CommunicationTransport>('comms.transport')
 
@@ -42,9 +62,18 @@ export async function broadcast (code: MessageCodesEnum.I_AGREEMENT_STOPPED, pay
 export async function broadcast (code: MessageCodesEnum.I_AGREEMENT_EXPIRED, payload: AgreementInfoPayload): Promise<void>
 export async function broadcast (code: MessageCodesEnum.I_HASH_PINNED, payload: HashInfoPayload): Promise<void>
 export async function broadcast (code: MessageCodesEnum.I_HASH_START, payload: HashInfoPayload): Promise<void>
+export async function broadcast (code: MessageCodesEnum.I_HASH_PROGRESS, payload: PinProgressPayload): Promise<void>
 export async function broadcast (code: MessageCodesEnum.W_HASH_RETRY, payload: RetryPayload): Promise<void>
-export async function broadcast (code: MessageCodesEnum.E_HASH_NOT_FOUND, payload: HashInfoPayload): Promise<void>
+export async function broadcast (code: MessageCodesEnum.W_HASH_MISSING, payload: HashInfoPayload): Promise<void>
+export async function broadcast (code: MessageCodesEnum.W_HASH_RETRY_SCHEDULED, payload: RetryScheduledPayload): Promise<void>
+export async function broadcast (code: MessageCodesEnum.E_HASH_NOT_FOUND, payload: JobErrorPayload): Promise<void>
 export async function broadcast (code: MessageCodesEnum.E_AGREEMENT_SIZE_LIMIT_EXCEEDED, payload: AgreementSizeExceededPayload): Promise<void>
+export async function broadcast (code: MessageCodesEnum.E_CAPACITY_EXCEEDED, payload: CapacityExceededPayload): Promise<void>
+export async function broadcast (code: MessageCodesEnum.E_UNKNOWN_PROVIDER, payload: ProviderErrorPayload): Promise<void>
+export async function broadcast (code: MessageCodesEnum.E_HASH_RETRY_GAVE_UP, payload: RetryGaveUpPayload): Promise<void>
+export async function broadcast (code: MessageCodesEnum.E_PIN_TIMEOUT, payload: PinTimeoutPayload): Promise<void>
+export async function broadcast (code: MessageCodesEnum.E_IPFS_UNREACHABLE, payload: JobErrorPayload): Promise<void>
+export async function broadcast (code: MessageCodesEnum.E_HASH_INVALID, payload: JobErrorPayload): Promise<void>
 export async function broadcast (code: MessageCodesEnum, payload: Record<string, any>): Promise<void>
 export async function broadcast (code: MessageCodesEnum, payload: Record<string, any>): Promise<void> {
   if (!transport) {
@@ -55,6 +84,13 @@ export async function broadcast (code: MessageCodesEnum, payload: Record<string,
     throw new Error('Every broadcasted message has to have Agreement Reference!')
   }
 
+  if (payload.agreementReference && isTerminal(code)) {
+    lastProgress.delete(payload.agreementReference)
+
+    // Progress of the ended pinning would be misleading when the messages are resent
+    await Message.destroy({ where: { agreementReference: payload.agreementReference, code: MessageCodesEnum.I_HASH_PROGRESS } })
+  }
+
   const msg = {
     code,
     payload,
@@ -91,3 +127,39 @@ export async function broadcast (code: MessageCodesEnum, payload: Record<string,
 
   await transport.broadcast(msg).catch(logger.error)
 }
+
+/**
+ * Forgets the progress throttling of the Agreement once its pinning ended in any way,
+ * including cancelled pinning and pinning that did not notify the consumer about its end.
+ *
+ * @param agreementReference
+ */
+export function forgetProgress (agreementReference: string): void {
+  lastProgress.delete(agreementReference)
+}
+
+/**
+ * Broadcasts progress of pinning. The messages are throttled per Agreement and only the latest
+ * progress message is persisted, so it does not push out other messages and it can be still resent.
+ * Progress of pinning that ended while the message was being prepared is dropped.
+ *
+ * @param payload
+ */
+export async function broadcastProgress (payload: PinProgressPayload): Promise<void> {
+  const interval = parse(config.get<string>('comms.progressInterval')) ?? 0
+  const { agreementReference } = payload
+  const lastTimestamp = lastProgress.get(agreementReference)
+
+  if (lastTimestamp !== undefined && Date.now() - lastTimestamp < interval) {
+    return
+  }
+  lastProgress.set(agreementReference, Date.now())
+
+  await Message.destroy({ where: { agreementReference, code: MessageCodesEnum.I_HASH_PROGRESS } })
+
+  if (!lastProgress.has(agreementReference)) {
+    return
+  }
+
+  await broadcast(MessageCodesEnum.I_HASH_PROGRESS, payload)
+}
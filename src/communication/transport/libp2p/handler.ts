@@ -1,4 +1,5 @@
 import { DirectMessage } from '@rsksmart/rif-communications-pubsub'
+import multiaddr from 'multiaddr'
 
 import { CommsMessage, MessageCodesEnum, ResendMessagesPayload } from '../../../definitions'
 import type {
@@ -11,10 +12,53 @@ import Message from '../../../models/message.model'
 
 const logger = loggingFactory('comms:libp2p:handler')
 
-// eslint-disable-next-line require-await
+/**
+ * Validates the announced multiaddrs and makes sure that all of them include the announced peerId.
+ * Invalid multiaddrs and multiaddrs of other peers are dropped.
+ *
+ * @param peerId
+ * @param addresses
+ */
+export function parseAnnouncedMultiaddrs (peerId: string, addresses: unknown): string[] {
+  if (!Array.isArray(addresses)) {
+    return []
+  }
+
+  return addresses.reduce<string[]>((valid, address) => {
+    try {
+      const addr = multiaddr(address)
+      const addrPeerId = addr.getPeerId()
+
+      if (addrPeerId && addrPeerId !== peerId) {
+        logger.warn(`Announced multiaddr ${address} does not belong to peer ${peerId}, ignoring`)
+        return valid
+      }
+
+      return [...valid, (addrPeerId ? addr : addr.encapsulate(`/p2p/${peerId}`)).toString()]
+    } catch (e) {
+      logger.warn(`Announced multiaddr ${address} of peer ${peerId} is invalid: ${e.message}`)
+      return valid
+    }
+  }, [])
+}
+
 async function handlePeerIdAnnouncement (message: DirectMessage<CommsMessage<MultiaddrAnnouncementPayload>>): Promise<void> {
-  const { data: { payload: { peerId, agreementReference } } } = message
-  await DirectAddressModel.create({ peerId, agreementReference })
+  const { data: { payload: { peerId, agreementReference, multiaddrs } } } = message
+  const addresses = parseAnnouncedMultiaddrs(peerId, multiaddrs)
+
+  // Consumer can announce multiple peers for the Agreement, all of them are tried when pinning
+  const [directAddress, created] = await DirectAddressModel.findOrCreate({ where: { peerId, agreementReference } })
+
+  if (created) {
+    logger.info(`Peer ${peerId} announced for Agreement ${agreementReference}`)
+  }
+
+  const newAddresses = addresses.filter(address => !directAddress.multiaddrs.includes(address))
+
+  if (newAddresses.length > 0) {
+    directAddress.multiaddrs = [...directAddress.multiaddrs, ...newAddresses]
+    await directAddress.save()
+  }
 }
 
 interface LatestMessagesWhere {
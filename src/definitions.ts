@@ -17,9 +17,48 @@ export enum Providers {
   IPFS = 'ipfs'
 }
 
+/**
+ * Jobs with higher priority are executed first.
+ */
+export enum JobPriority {
+  LOW = 0,
+  NORMAL = 10,
+  HIGH = 20
+}
+
+export interface PinOptions {
+  priority?: JobPriority
+}
+
+/**
+ * Optional features that Provider can support.
+ */
+export enum ProviderCapability {
+  // Resumes work that was left unfinished by previous run of the service
+  RESUME = 'resume',
+
+  // Cancels queued and running pinning of the Agreement
+  CANCEL = 'cancel',
+
+  // Verifies that the hash is still pinned
+  PIN_STATUS = 'pinStatus',
+
+  // Periodically updates the pinned data of mutable references (eq. IPNS names)
+  REFRESH = 'refresh'
+}
+
 export interface Provider {
-  pin (hash: string, expectedSize: BigNumber, peerId?: string): Promise<void>
-  unpin (hash: string): void
+  // Path prefixes of the hashes that the Provider handles, eq. '/ipfs/'
+  readonly prefixes: string[]
+  readonly capabilities: ProviderCapability[]
+
+  pin (hash: string, expectedSize: BigNumber, agreementReference: string, options?: PinOptions): Promise<void>
+  unpin (hash: string): Promise<void>
+
+  resume? (): Promise<void>
+  cancel? (agreementReference: string): Promise<void>
+  isPinned? (hash: string): Promise<boolean>
+  refresh? (): Promise<void>
 }
 
 /**
@@ -54,10 +93,125 @@ export enum CommunicationTransport {
 
 export enum Strategy { Blockchain = 'blockchain', Marketplace = 'marketplace' }
 
+export enum GcConfirmationMode {
+  // Expiration is confirmed once the configured delay elapses since the Agreement ran out of funds
+  TIME = 'time',
+
+  // Expiration is confirmed by the cache service, which announces only confirmed blocks
+  CACHE = 'cache'
+}
+
+export interface GcConfirmationOptions {
+  blockchain?: {
+    // Number of blocks since the expiration was detected, defaults to blockchain.eventsEmitter.confirmations
+    blocks?: number | null
+  }
+
+  marketplace?: {
+    mode?: GcConfirmationMode
+    delay?: string
+  }
+}
+
+export enum AgreementStatus {
+  ACTIVE = 'active',
+
+  // Agreement expired, but its data are kept pinned until the retention period elapses
+  INACTIVE_RETAINED = 'inactive-retained',
+  INACTIVE = 'inactive'
+}
+
+export interface IpfsNodeOptions {
+  // Unique name of the node that is persisted with the Agreements pinned on it
+  name: string
+  clientOptions: IpfsOptions
+}
+
+export interface PinTimeoutOptions {
+  // Number of the most recent finished pinning Jobs whose throughput is used for the estimation
+  window?: number
+
+  // Percentile of the measured throughputs used for the estimation
+  percentile?: number
+
+  // Number of measurements needed before the measured throughput is used instead of the default rate
+  minSamples?: number
+
+  // Throughputs in MB/s
+  defaultRate?: number
+  rate?: number | null
+
+  // Bounds of the computed timeout
+  minTimeout?: string
+  maxTimeout?: string
+}
+
+export interface PinRetryOptions {
+  // Delay before the first re-attempt of errored pinning, every following delay is multiplied by the multiplier
+  initialDelay?: string
+  multiplier?: number
+
+  // Cap of the delay between two re-attempts
+  maxDelay?: string
+
+  // Time since the first failure after which the pinning is not re-attempted anymore
+  giveUpAfter?: string
+
+  // How often are errored pinnings checked
+  interval?: string
+}
+
+export interface IpfsClusterOptions {
+  // When enabled the hashes are pinned through IPFS Cluster instead of the single IPFS node
+  enabled?: boolean
+
+  // URL of the Cluster's REST API
+  url?: string
+
+  // Minimal and maximal number of Cluster's peers that pin the data, -1 means all the peers
+  replicationFactorMin?: number
+  replicationFactorMax?: number
+
+  // How often is checked status of pinning in the Cluster
+  statusPollInterval?: string
+}
+
+export enum BackoffJitter {
+  // Delays grow exactly by the multiplier
+  NONE = 'none',
+
+  // Delay is random between zero and the exponentially growing delay
+  FULL = 'full',
+
+  // Delay is random between the base delay and the previous delay times the multiplier
+  DECORRELATED = 'decorrelated'
+}
+
+export interface RetryPolicyOptions {
+  // Delay before the first retry of a Job, every following delay is multiplied by the multiplier
+  baseDelay?: string
+  multiplier?: number
+
+  // Cap of the delay between two retries
+  maxDelay?: string
+
+  jitter?: BackoffJitter
+}
+
 export interface JobManagerOptions {
   retries?: number
+
+  // Deprecated, use retryPolicy.baseDelay and retryPolicy.multiplier
   backoffTime?: number
   exponentialBackoff?: boolean
+
+  retryPolicy?: RetryPolicyOptions & {
+    // Overrides of the policy for specific Job types (eq. 'ipfs - pin')
+    overrides?: Record<string, RetryPolicyOptions>
+  }
+
+  // Maximal number of Jobs that are executed at the same time
+  concurrency?: number
 }
 
 export interface Config {
@@ -69,12 +223,42 @@ export interface Config {
     transport?: CommunicationTransport
     libp2p?: Libp2pOptions
     countOfMessagesPersistedPerAgreement?: number
+
+    // Minimal time between two progress messages of pinning for one Agreement
+    progressInterval?: string
   }
 
   directAddress?: {
     ttl?: string
   }
 
+  pinAudit?: {
+    // How often is verified that data of active Agreements are still pinned
+    interval?: string
+  }
+
+  pinRetry?: PinRetryOptions
+
+  unpinRetry?: {
+    // How often is unpinning that failed without any tries left re-attempted
+    interval?: string
+  }
+
+  retention?: {
+    // How long are data of expired Agreements kept pinned before they are unpinned
+    period?: string
+  }
+
+  reconciliation?: {
+    // CIDs that are never reported nor unpinned as orphaned pins
+    allowList?: string[]
+  }
+
+  gc?: {
+    // Confirmation of the Agreement's expiration per strategy
+    confirmation?: GcConfirmationOptions
+  }
+
   // What strategy for event listening should be used
   strategy?: Strategy
 
@@ -108,7 +292,22 @@ export interface Config {
 
   ipfs?: {
     clientOptions?: IpfsOptions
+
+    // IPFS nodes that the Agreements are sharded across, when empty only the `clientOptions` node is used
+    nodes?: IpfsNodeOptions[]
+
     sizeFetchTimeout?: number | string
+    pinTimeout?: PinTimeoutOptions
+  }
+
+  ipfsCluster?: IpfsClusterOptions
+
+  ipns?: {
+    // How often are IPNS names of active Agreements resolved again
+    refreshInterval?: string
+
+    // Timeout for resolving of IPNS name
+    resolveTimeout?: string
   }
 
   jobs?: JobManagerOptions
@@ -125,7 +324,9 @@ export enum JobState {
   BACKOFF = 'backoff',
   CREATED = 'created',
   ERRORED = 'errored',
-  FINISHED = 'finished'
+  FINISHED = 'finished',
+  INTERRUPTED = 'interrupted',
+  CANCELLED = 'cancelled'
 }
 
 export type ErrorHandler = (fn: (...args: any[]) => Promise<void>, logger: Logger) => (...args: any[]) => Promise<void>
@@ -212,13 +413,22 @@ export enum MessageCodesEnum {
   I_AGREEMENT_EXPIRED = 'I_AGR_EXP',
   I_HASH_START = 'I_HASH_START',
   I_HASH_PINNED = 'I_HASH_STOP',
+  I_HASH_PROGRESS = 'I_HASH_PROGRESS',
   I_MULTIADDR_ANNOUNCEMENT = 'I_ADDR_ANNOUNCE',
   I_RESEND_LATEST_MESSAGES = 'I_RESEND',
   W_GENERAL = 'W_GEN',
   W_HASH_RETRY = 'W_HASH_RETRY',
+  W_HASH_MISSING = 'W_HASH_MISSING',
+  W_HASH_RETRY_SCHEDULED = 'W_HASH_RETRY_SCHEDULED',
   E_GENERAL = 'E_GEN',
   E_HASH_NOT_FOUND = 'E_HASH_404',
-  E_AGREEMENT_SIZE_LIMIT_EXCEEDED = 'E_AGR_SIZE_OVERFLOW'
+  E_HASH_RETRY_GAVE_UP = 'E_HASH_GIVE_UP',
+  E_AGREEMENT_SIZE_LIMIT_EXCEEDED = 'E_AGR_SIZE_OVERFLOW',
+  E_CAPACITY_EXCEEDED = 'E_CAPACITY_OVERFLOW',
+  E_UNKNOWN_PROVIDER = 'E_PROVIDER_404',
+  E_PIN_TIMEOUT = 'E_PIN_TIMEOUT',
+  E_IPFS_UNREACHABLE = 'E_IPFS_UNREACHABLE',
+  E_HASH_INVALID = 'E_HASH_INVALID'
 }
 
 // Outgoing messages
@@ -237,12 +447,66 @@ export interface HashInfoPayload extends BasePayload {
   hash: string
 }
 
+export interface JobErrorPayload extends HashInfoPayload {
+  error: string
+}
+
+export interface PinTimeoutPayload extends JobErrorPayload {
+  // Timeout of the pinning in ms
+  timeout: number
+}
+
+export interface RetryScheduledPayload extends HashInfoPayload {
+  error: string
+
+  // Number of failed pinnings so far
+  attempt: number
+
+  // Timestamps in ms
+  nextAttemptAt: number
+  deadline: number
+}
+
+export interface RetryGaveUpPayload extends HashInfoPayload {
+  error: string
+  attempts: number
+}
+
 export type AgreementInfoPayload = BasePayload
 
-export interface AgreementSizeExceededPayload extends BasePayload {
+export interface PinProgress {
+  // Number of fetched blocks
+  blocks: number
+
+  // Number of fetched bytes
+  bytes: number
+
+  // Size in bytes estimated from the metadata of the hash
+  totalBytes: number
+
+  percentage: number
+
+  // Estimated number of seconds until the fetching finishes
+  eta: number | null
+}
+
+export interface PinProgressPayload extends HashInfoPayload, PinProgress {}
+
+export interface AgreementSizeExceededPayload extends JobErrorPayload {
+  size: BigNumber
+  expectedSize: BigNumber
+}
+
+export interface ProviderErrorPayload extends BasePayload {
+  hash: string
+  error: string
+}
+
+export interface CapacityExceededPayload extends BasePayload {
   hash: string
   size: number
-  expectedSize: number
+  committedCapacity: number
+  totalCapacity: number
 }
 
 // Incoming messages
@@ -250,6 +514,9 @@ export interface AgreementSizeExceededPayload extends BasePayload {
 export interface MultiaddrAnnouncementPayload {
   agreementReference: string
   peerId: string
+
+  // Full multiaddrs of the peer, when present the peer is dialed directly without DHT lookup
+  multiaddrs?: string[]
 }
 
 export interface ResendMessagesPayload {
@@ -1,5 +1,8 @@
 import type BigNumber from 'bignumber.js'
 
+import type { AgreementSizeExceededPayload, JobErrorPayload, PinTimeoutPayload } from './definitions'
+import { MessageCodesEnum } from './definitions'
+
 /**
  * Error for problems during processing of received events
  */
@@ -32,6 +35,24 @@ export class ProviderError extends Error {
   }
 }
 
+/**
+ * Error for hashes that none of the registered providers handles
+ */
+export class UnknownProviderError extends ProviderError {
+  static code = 'UNKNOWN_PROVIDER_ERR'
+  public code: string
+
+  static is (e: any): e is UnknownProviderError {
+    return e.code === UnknownProviderError.code
+  }
+
+  constructor (message: string) {
+    super(message)
+    this.name = 'UnknownProviderError'
+    this.code = UnknownProviderError.code
+  }
+}
+
 /**
  * Error for problems related to providers
  */
@@ -46,24 +67,132 @@ export class NotPinnedError extends ProviderError {
   }
 }
 
+/**
+ * Specifies how a Job is retried when it fails with given error
+ */
+export enum RetryPolicy {
+  // Retried right away and when all the retries fail, re-attempted later on escalating schedule
+  RETRY = 'retry',
+
+  // Immediate retries would most probably fail as well, so it is only re-attempted later on escalating schedule
+  RETRY_LATER = 'retry-later',
+
+  // It would always fail again, so it is never retried
+  NEVER = 'never'
+}
+
 /**
  * General error that should be used inside of Jobs as it has ability to specify
  * if Jobs should be retried or not and other aspects.
+ *
+ * Every Jobs error is reported to the consumer with its own message code and payload.
  */
 export class JobsError extends Error {
   static code = 'JOBS_ERR'
   public code: string
-  _retryable: boolean
+  public readonly retryPolicy: RetryPolicy
 
-  constructor (message: string, retryable = true) {
+  constructor (message: string, retryPolicy = RetryPolicy.RETRY) {
     super(message)
     this.name = 'JobsError'
     this.code = JobsError.code
-    this._retryable = retryable
+    this.retryPolicy = retryPolicy
   }
 
+  /**
+   * Specifies if the Job should be retried right away
+   */
   get retryable (): boolean {
-    return this._retryable
+    return this.retryPolicy === RetryPolicy.RETRY
+  }
+
+  get messageCode (): MessageCodesEnum {
+    return MessageCodesEnum.E_GENERAL
+  }
+
+  /**
+   * Payload of the message that reports the error to the consumer
+   */
+  toPayload (hash: string, agreementReference: string): JobErrorPayload {
+    return { hash, agreementReference, error: this.message }
+  }
+}
+
+/**
+ * Error for hashes whose data could not be found (eq. fetching of their size timed out)
+ */
+export class HashNotFoundError extends JobsError {
+  static code = 'HASH_NOT_FOUND_ERR'
+  public code: string
+
+  constructor (message: string) {
+    super(message, RetryPolicy.RETRY_LATER)
+    this.name = 'HashNotFoundError'
+    this.code = HashNotFoundError.code
+  }
+
+  get messageCode (): MessageCodesEnum {
+    return MessageCodesEnum.E_HASH_NOT_FOUND
+  }
+}
+
+/**
+ * Error for pinning that did not finish within the estimated timeout
+ */
+export class PinTimeoutError extends JobsError {
+  static code = 'PIN_TIMEOUT_ERR'
+  public code: string
+  public readonly timeout: number
+
+  constructor (message: string, timeout: number) {
+    super(message, RetryPolicy.RETRY)
+    this.name = 'PinTimeoutError'
+    this.code = PinTimeoutError.code
+    this.timeout = timeout
+  }
+
+  get messageCode (): MessageCodesEnum {
+    return MessageCodesEnum.E_PIN_TIMEOUT
+  }
+
+  toPayload (hash: string, agreementReference: string): PinTimeoutPayload {
+    return { ...super.toPayload(hash, agreementReference), timeout: this.timeout }
+  }
+}
+
+/**
+ * Error for problems with connection to the IPFS node
+ */
+export class IpfsUnreachableError extends JobsError {
+  static code = 'IPFS_UNREACHABLE_ERR'
+  public code: string
+
+  constructor (message: string) {
+    super(message, RetryPolicy.RETRY)
+    this.name = 'IpfsUnreachableError'
+    this.code = IpfsUnreachableError.code
+  }
+
+  get messageCode (): MessageCodesEnum {
+    return MessageCodesEnum.E_IPFS_UNREACHABLE
+  }
+}
+
+/**
+ * Error for hashes that are not valid CIDs
+ */
+export class InvalidCidError extends JobsError {
+  static code = 'INVALID_CID_ERR'
+  public code: string
+
+  constructor (message: string) {
+    super(message, RetryPolicy.NEVER)
+    this.name = 'InvalidCidError'
+    this.code = InvalidCidError.code
+  }
+
+  get messageCode (): MessageCodesEnum {
+    return MessageCodesEnum.E_HASH_INVALID
   }
 }
 
@@ -81,7 +210,7 @@ export class HashExceedsSizeError extends JobsError {
   }
 
   constructor (message: string, currentSize: BigNumber, expectedSize: BigNumber) {
-    super(message, false)
+    super(message, RetryPolicy.NEVER)
     this.name = 'HASH_EXCEEDS_SIZE_ERR'
     this.code = HashExceedsSizeError.code
     this._currentSize = currentSize
@@ -95,4 +224,17 @@ export class HashExceedsSizeError extends JobsError {
   get expectedSize (): BigNumber {
     return this._expectedSize
   }
+
+  get messageCode (): MessageCodesEnum {
+    return MessageCodesEnum.E_AGREEMENT_SIZE_LIMIT_EXCEEDED
+  }
+
+  toPayload (hash: string, agreementReference: string): AgreementSizeExceededPayload {
+    return { ...super.toPayload(hash, agreementReference), size: this.currentSize, expectedSize: this.expectedSize }
+  }
 }
+
+/**
+ * Codes of the errors whose Jobs are never retried, not even later on escalating schedule
+ */
+export const NEVER_RETRIED_ERROR_CODES = [InvalidCidError.code, HashExceedsSizeError.code]
@@ -3,37 +3,102 @@ import config from 'config'
 import parse from 'parse-duration'
 
 import Agreement from './models/agreement.model'
-import { Op } from 'sequelize'
-import { ProviderManager } from './providers'
+import { col, fn, literal, Op, where, WhereOptions } from 'sequelize'
+import type { Literal } from 'sequelize/types/lib/utils'
+import { ProviderManager, UNPIN_JOB_TYPE } from './providers'
 import { loggingFactory } from './logger'
 import { broadcast } from './communication'
-import { MessageCodesEnum } from './definitions'
-import { NotPinnedError } from './errors'
+import {
+  GcConfirmationMode,
+  GcConfirmationOptions,
+  JobPriority,
+  JobState,
+  MessageCodesEnum,
+  PinRetryOptions,
+  Strategy
+} from './definitions'
+import { NEVER_RETRIED_ERROR_CODES } from './errors'
 import DirectAddressModel from './models/direct-address.model'
+import JobModel from './models/job.model'
+import PinAuditModel from './models/pin-audit.model'
 import { composeGc } from './utils'
 
 const logger = loggingFactory('gc')
 
 type GcHandlerOptions = { manager?: ProviderManager }
 
+async function unpinAgreement (agreement: Agreement, manager?: ProviderManager): Promise<void> {
+  await manager?.cancel(agreement.agreementReference)
+  await manager?.unpin(agreement.dataReference, agreement.agreementReference)
+}
+
+function getRetentionPeriod (): number {
+  const period = parse(config.get<string>('retention.period'))
+
+  if (period === null) {
+    throw new Error('Invalid retention period value')
+  }
+
+  return period
+}
+
+/**
+ * Returns condition matching the Agreements marked as expired whose expiration is already confirmed.
+ *
+ * With blockchain strategy the expiration is confirmed after configured number of blocks since it was detected.
+ * With marketplace strategy the block numbers come from the cache service, so the expiration is confirmed
+ * either once the configured delay elapses since the Agreement ran out of funds or right away as the cache
+ * service announces only confirmed blocks.
+ *
+ * @param block
+ */
+export function getConfirmedExpirationCondition (block: BlockHeader): WhereOptions {
+  const { blockchain, marketplace } = config.get<GcConfirmationOptions>('gc.confirmation')
+
+  if (config.get<Strategy>('strategy') !== Strategy.Marketplace) {
+    const blocks = blockchain?.blocks ?? config.get<number>('blockchain.eventsEmitter.confirmations')
+    return { expiredAtBlockNumber: { [Op.lte]: block.number - blocks } }
+  }
+
+  if (marketplace?.mode === GcConfirmationMode.CACHE) {
+    return { expiredAtBlockNumber: { [Op.ne]: null } }
+  }
+
+  const delay = parse(marketplace?.delay ?? '')
+
+  if (delay === null) {
+    throw new Error('Invalid gc.confirmation.marketplace.delay value')
+  }
+
+  return { expiredAtBlockNumber: { [Op.ne]: null }, fundsExhaustedAt: { [Op.lte]: new Date(Date.now() - delay) } }
+}
+
 /**
  * This is a closure that garbage-collects pins of expired Agreements.
  *
  * When first detects an Agreement to have no funds it saves the block number at what it was detected.
- * Then after number of blocks specified for confirmations it actualy unpins the data.
+ * Then once the expiration is confirmed (see getConfirmedExpirationCondition()) it actualy unpins the data.
  *
  * This is in order to handle case when reorg happens and the DepositFunds event is emitted in the
  * confirmation range.
  *
+ * When retention period is configured, the data of expired Agreement are not unpinned right away,
+ * but the Agreement is marked as retained and its data are unpinned only once the period elapses.
+ * If the consumer deposits funds in the meanwhile, the Agreement is reactivated by the events processor.
+ *
  * @param options
  */
 
 export function collectPinsClosure (options?: GcHandlerOptions) {
   return async (block: BlockHeader): Promise<void> => {
     logger.verbose('Running pinning GC')
+    const retentionPeriod = getRetentionPeriod()
 
-    const nonExpiredAgreements = await Agreement.findAll({ where: { expiredAtBlockNumber: null, isActive: true } })
-    for (const agreement of nonExpiredAgreements) {
+    // Only the Agreements whose funds ran out are loaded, the exhaustion time is recomputed whenever they are saved
+    const exhaustedAgreements = await Agreement.findAll({
+      where: { expiredAtBlockNumber: null, isActive: true, fundsExhaustedAt: { [Op.lte]: new Date() } }
+    })
+    for (const agreement of exhaustedAgreements) {
       if (!agreement.hasSufficientFunds) {
         logger.info(`Marking agreement ${agreement.agreementReference} to be collected at block ${block.number}.`)
         agreement.expiredAtBlockNumber = block.number
@@ -42,32 +107,337 @@ export function collectPinsClosure (options?: GcHandlerOptions) {
     }
 
     const agreementsToUnpins = await Agreement.findAll({
-      where: {
-        expiredAtBlockNumber: {
-          [Op.lte]: block.number - config.get<number>('blockchain.eventsEmitter.confirmations')
-        },
-        isActive: true
-      }
+      where: { ...getConfirmedExpirationCondition(block), isActive: true }
     })
     for (const agreement of agreementsToUnpins) {
       if (agreement.hasSufficientFunds) { // Agreement received funds in meanwhile, lets continue!
         agreement.expiredAtBlockNumber = null
       } else { // Agreement is still without funds!
-        logger.info(`Unpinning agreement ${agreement.agreementReference}.`)
-        try {
-          await options?.manager?.unpin(agreement.dataReference)
-        } catch (e) {
-          if (e.code === NotPinnedError.code) {
-            logger.info(`Data reference ${agreement.dataReference} was already removed prior our GC run!`)
-          } else {
-            throw e
-          }
+        if (retentionPeriod > 0) {
+          agreement.retainedUntil = new Date(Date.now() + retentionPeriod)
+          logger.info(`Retaining data of agreement ${agreement.agreementReference} until ${agreement.retainedUntil.toISOString()}.`)
+        } else {
+          logger.info(`Unpinning agreement ${agreement.agreementReference}.`)
+          await unpinAgreement(agreement, options?.manager)
         }
         await broadcast(MessageCodesEnum.I_AGREEMENT_EXPIRED, { agreementReference: agreement.agreementReference })
         agreement.isActive = false
       }
       await agreement.save()
     }
+
+    const retentionElapsedAgreements = await Agreement.findAll({
+      where: { isActive: false, retainedUntil: { [Op.lte]: new Date() } }
+    })
+    for (const agreement of retentionElapsedAgreements) {
+      logger.info(`Retention period of agreement ${agreement.agreementReference} elapsed, unpinning it.`)
+      await unpinAgreement(agreement, options?.manager)
+      agreement.retainedUntil = null
+      await agreement.save()
+    }
+  }
+}
+
+/**
+ * Returns the given column of the latest pinning Job of the Agreement as SQL subquery.
+ *
+ * @param column
+ */
+function latestPinJob (column: string): Literal {
+  return literal(`(SELECT ${column} FROM jobs WHERE jobs.agreementReference = Agreement.agreementReference AND jobs.type != '${UNPIN_JOB_TYPE}' ORDER BY jobs.id DESC LIMIT 1)`)
+}
+
+async function auditAgreement (agreement: Agreement, manager: ProviderManager): Promise<void> {
+  const { agreementReference, dataReference } = agreement
+  const isPinned = await manager.isPinned(dataReference)
+
+  if (isPinned === undefined) {
+    logger.verbose(`Provider of ${dataReference} does not support verifying pins, skipping agreement ${agreementReference}`)
+    return
+  }
+
+  const [audit] = await PinAuditModel.findOrBuild({ where: { agreementReference }, defaults: { dataReference } })
+  audit.dataReference = dataReference
+  audit.isPinned = isPinned
+  audit.auditedAt = new Date()
+
+  if (!isPinned) {
+    logger.warn(`Data ${dataReference} of agreement ${agreementReference} is not pinned anymore! Pinning it again.`)
+    await broadcast(MessageCodesEnum.W_HASH_MISSING, { hash: dataReference, agreementReference })
+    await manager.pin(dataReference, agreement.size, agreementReference, { priority: JobPriority.HIGH })
+    audit.repinCount += 1
+  }
+
+  await audit.save()
+}
+
+/**
+ * This is a closure that audits that the data of active Agreements are still pinned,
+ * as they might be removed for example by the operator or corrupted repository.
+ *
+ * Only Agreements which latest pinning Job finished are audited, as otherwise the pinning is still in progress
+ * or it failed. Missing data are pinned again and the consumer is notified about it.
+ * The audit runs at most once per configured interval.
+ *
+ * @param options
+ */
+export function auditPinsClosure (options?: GcHandlerOptions) {
+  let lastAudit = 0
+
+  return async (): Promise<void> => {
+    const interval = parse(config.get<string>('pinAudit.interval'))
+
+    if (!interval) {
+      throw new Error('Invalid Pin Audit interval value')
+    }
+
+    if (!options?.manager || Date.now() - lastAudit < interval) {
+      return
+    }
+    lastAudit = Date.now()
+    logger.verbose('Running pins audit')
+
+    const agreements = await Agreement.findAll({
+      where: { isActive: true, [Op.and]: [where(latestPinJob('state'), JobState.FINISHED)] }
+    })
+    for (const agreement of agreements) {
+      await auditAgreement(agreement, options.manager)
+    }
+  }
+}
+
+/**
+ * Computes delay (in ms) before re-attempting pinning that failed given number of times.
+ * The delay escalates from the initial delay up to the configured max delay.
+ *
+ * @param attempt number of failed pinnings
+ */
+export function getPinRetryDelay (attempt: number): number {
+  const { initialDelay, multiplier, maxDelay } = config.get<PinRetryOptions>('pinRetry')
+  const initial = parse(initialDelay ?? '')
+  const max = parse(maxDelay ?? '')
+
+  if (!initial || !max) {
+    throw new Error('Invalid pinRetry.initialDelay or pinRetry.maxDelay value')
+  }
+
+  return Math.min(max, initial * Math.pow(multiplier ?? 1, attempt - 1))
+}
+
+async function countFailedPinnings (agreementReference: string): Promise<number> {
+  const type = { [Op.ne]: UNPIN_JOB_TYPE }
+  const lastFinished = await JobModel.findOne({
+    where: { agreementReference, type, state: JobState.FINISHED },
+    order: [['id', 'DESC']]
+  })
+
+  return JobModel.count({
+    where: { agreementReference, type, state: JobState.ERRORED, id: { [Op.gt]: lastFinished?.id ?? 0 } }
+  })
+}
+
+/**
+ * Notifies the consumer that the pinning is not re-attempted anymore. The Agreement is expected to be
+ * saved with its next re-attempt scheduled after its deadline, so it is not loaded for re-attempts again.
+ *
+ * @param agreement
+ * @param attempts
+ * @param error
+ */
+async function giveUpPinning ({ agreementReference, dataReference }: Agreement, attempts: number, error: string): Promise<void> {
+  logger.warn(`Giving up pinning of agreement ${agreementReference} after ${attempts} failure(s)`)
+  await broadcast(MessageCodesEnum.E_HASH_RETRY_GAVE_UP, {
+    hash: dataReference,
+    agreementReference,
+    attempts,
+    error
+  })
+}
+
+async function retryPinning (agreement: Agreement, manager: ProviderManager): Promise<void> {
+  const { agreementReference, dataReference } = agreement
+  const lastJob = await JobModel.findOne({
+    where: { agreementReference, type: { [Op.ne]: UNPIN_JOB_TYPE } },
+    order: [['id', 'DESC']]
+  })
+
+  if (lastJob?.state === JobState.FINISHED && agreement.pinRetryStep > 0) {
+    logger.info(`Pinning of agreement ${agreementReference} succeeded after ${agreement.pinRetryStep} failure(s)`)
+    agreement.pinRetryStep = 0
+    agreement.pinRetryDeadline = null
+    agreement.pinRetryAt = null
+    await agreement.save()
+    return
+  }
+
+  if (lastJob?.state !== JobState.ERRORED || NEVER_RETRIED_ERROR_CODES.includes(lastJob.errorCode as string)) {
+    return
+  }
+
+  const attempt = await countFailedPinnings(agreementReference)
+  const nextAttemptAt = lastJob.finish.getTime() + getPinRetryDelay(attempt)
+
+  if (attempt > agreement.pinRetryStep) { // The failure was not handled yet
+    const giveUpAfter = parse(config.get<string>('pinRetry.giveUpAfter')) ?? 0
+    const deadline = agreement.pinRetryDeadline ?? new Date(lastJob.finish.getTime() + giveUpAfter)
+    agreement.pinRetryStep = attempt
+    agreement.pinRetryDeadline = deadline
+    agreement.pinRetryAt = new Date(nextAttemptAt)
+    await agreement.save()
+
+    if (nextAttemptAt > deadline.getTime()) {
+      await giveUpPinning(agreement, attempt, lastJob.errorMessage)
+    } else {
+      logger.info(`Pinning of agreement ${agreementReference} will be re-attempted at ${new Date(nextAttemptAt).toISOString()}`)
+      await broadcast(MessageCodesEnum.W_HASH_RETRY_SCHEDULED, {
+        hash: dataReference,
+        agreementReference,
+        attempt,
+        error: lastJob.errorMessage,
+        nextAttemptAt,
+        deadline: deadline.getTime()
+      })
+    }
+
+    return
+  }
+
+  const retryAt = agreement.pinRetryAt?.getTime() ?? nextAttemptAt
+
+  if (retryAt > Date.now() || retryAt > (agreement.pinRetryDeadline?.getTime() ?? 0)) {
+    if (!agreement.pinRetryAt) {
+      agreement.pinRetryAt = new Date(retryAt)
+      await agreement.save()
+    }
+
+    return
+  }
+
+  logger.info(`Re-attempting pinning of agreement ${agreementReference} after ${attempt} failure(s)`)
+
+  if (await manager.pin(dataReference, agreement.size, agreementReference)) {
+    agreement.pinRetryAt = null
+    await agreement.save()
+    return
+  }
+
+  // The refusal (eq. because of exceeded capacity) is postponed as failed re-attempt, so it is not repeated every run
+  agreement.pinRetryAt = new Date(Date.now() + getPinRetryDelay(attempt))
+  await agreement.save()
+
+  if (agreement.pinRetryAt.getTime() > (agreement.pinRetryDeadline?.getTime() ?? 0)) {
+    await giveUpPinning(agreement, attempt, lastJob.errorMessage)
+  } else {
+    logger.warn(`Re-attempt of pinning of agreement ${agreementReference} was refused, postponed to ${agreement.pinRetryAt.toISOString()}`)
+  }
+}
+
+/**
+ * This is a closure that re-attempts errored pinning of active Agreements that still have funds,
+ * as the data might not be available yet when the Agreement is created.
+ *
+ * The re-attempts are scheduled with escalating delays and the consumer is notified about every scheduled
+ * re-attempt. Once the re-attempt would be scheduled after the Agreement's deadline the pinning is given up.
+ * It runs at most once per configured interval and loads only the Agreements whose latest pinning
+ * errored and was not scheduled yet or is due, or whose pinning finished after some failures.
+ *
+ * @param options
+ */
+export function retryPinsClosure (options?: GcHandlerOptions) {
+  let lastRun = 0
+
+  return async (): Promise<void> => {
+    const interval = parse(config.get<string>('pinRetry.interval'))
+
+    if (!interval) {
+      throw new Error('Invalid pinRetry.interval value')
+    }
+
+    if (!options?.manager || Date.now() - lastRun < interval) {
+      return
+    }
+    lastRun = Date.now()
+
+    const agreements = await Agreement.findAll({
+      where: {
+        isActive: true,
+        [Op.or]: [
+          {
+            [Op.and]: [
+              where(latestPinJob('state'), JobState.ERRORED),
+              where(fn('COALESCE', latestPinJob('errorCode'), ''), { [Op.notIn]: NEVER_RETRIED_ERROR_CODES }),
+              {
+                [Op.or]: [
+                  { pinRetryAt: null },
+                  { pinRetryAt: { [Op.lte]: new Date() }, [Op.and]: [where(col('pinRetryAt'), Op.lte, col('pinRetryDeadline'))] }
+                ]
+              }
+            ]
+          },
+          {
+            pinRetryStep: { [Op.gt]: 0 },
+            [Op.and]: [where(latestPinJob('state'), JobState.FINISHED)]
+          }
+        ]
+      }
+    })
+    for (const agreement of agreements.filter(agreement => agreement.hasSufficientFunds)) {
+      await retryPinning(agreement, options.manager)
+    }
+  }
+}
+
+/**
+ * This is a closure that re-attempts unpinning of hashes whose UnpinJob failed without any tries left,
+ * so the data of expired Agreements are not left pinned when the IPFS node was temporarily unavailable.
+ * It runs at most once per configured interval.
+ *
+ * @param options
+ */
+export function retryUnpinsClosure (options?: GcHandlerOptions) {
+  let lastRun = 0
+
+  return async (): Promise<void> => {
+    const interval = parse(config.get<string>('unpinRetry.interval'))
+
+    if (!interval) {
+      throw new Error('Invalid unpinRetry.interval value')
+    }
+
+    if (!options?.manager || Date.now() - lastRun < interval) {
+      return
+    }
+    lastRun = Date.now()
+    logger.verbose('Running re-attempts of unpinning')
+
+    await options.manager.retryUnpinning()
+  }
+}
+
+/**
+ * This is a closure that lets providers refresh the pinned data of mutable references,
+ * for example resolving IPNS names again and pinning their new targets.
+ * It runs at most once per configured interval.
+ *
+ * @param options
+ */
+export function refreshPinsClosure (options?: GcHandlerOptions) {
+  let lastRefresh = 0
+
+  return async (): Promise<void> => {
+    const interval = parse(config.get<string>('ipns.refreshInterval'))
+
+    if (!interval) {
+      throw new Error('Invalid IPNS refresh interval value')
+    }
+
+    if (!options?.manager || Date.now() - lastRefresh < interval) {
+      return
+    }
+    lastRefresh = Date.now()
+    logger.verbose('Running refresh of pins')
+
+    await options.manager.refresh()
   }
 }
 
@@ -83,11 +453,18 @@ export function collectDirectAddresses () {
     if (!ttl) {
       throw new Error('Invalid Direct Address ttl value')
     }
+
+    // Addresses of Agreements whose Jobs are still pending are kept, the Jobs remove them once they end
+    const pendingJobs = await JobModel.findAll({
+      attributes: ['agreementReference'],
+      where: { state: { [Op.in]: [JobState.CREATED, JobState.RUNNING, JobState.BACKOFF] } }
+    })
     await DirectAddressModel.destroy({
       where: {
         createdAt: {
           [Op.lte]: new Date(Date.now() - ttl)
-        }
+        },
+        agreementReference: { [Op.notIn]: pendingJobs.map(job => job.agreementReference) }
       }
     })
   }
@@ -96,6 +473,10 @@ export function collectDirectAddresses () {
 export default function (options?: GcHandlerOptions) {
   return composeGc([
     collectPinsClosure(options),
+    auditPinsClosure(options),
+    retryPinsClosure(options),
+    retryUnpinsClosure(options),
+    refreshPinsClosure(options),
     collectDirectAddresses()
   ])
 }
@@ -3,9 +3,7 @@ import config from 'config'
 import { loggingFactory } from './logger'
 import { BlockchainEventsProcessor } from './processor/blockchain-events'
 import { MarketplaceEventsProcessor } from './processor/marketplace-events'
-import { ProviderManager } from './providers'
-import { IpfsProvider } from './providers/ipfs'
-import { duplicateObject } from './utils'
+import { createProviderManager, ProviderManager } from './providers'
 import { JobsManager } from './jobs-manager'
 import { start as startCommunication, stop as stopCommunication } from './communication'
 import { Strategy } from './definitions'
@@ -39,10 +37,10 @@ export async function initApp (offerId: string, options: AppOptions): Promise<{
   await startCommunication(offerId, options.contractAddress)
 
   // Initialize Provider Manager
-  const providerManager = new ProviderManager()
-  const ipfs = await IpfsProvider.bootstrap(jobsManager, duplicateObject(config.get<string>('ipfs.clientOptions')))
-  providerManager.register(ipfs)
-  logger.info('IPFS provider initialized')
+  const providerManager = await createProviderManager(jobsManager)
+
+  // Pick up Jobs that were not finished before the service was stopped
+  await providerManager.resume()
 
   // Start listening for events
   const eventProcessor = getEventProcessor(offerId, providerManager, options)
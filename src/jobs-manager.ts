@@ -1,18 +1,51 @@
 import { EventEmitter } from 'events'
 
+import { Op } from 'sequelize'
+import parse from 'parse-duration'
+import AbortController, { AbortSignal } from 'abort-controller'
+
 import JobModel from './models/job.model'
-import { runAndAwaitFirstEvent, sleep } from './utils'
+import JobAttemptModel from './models/job-attempt.model'
+import { abortableSleep, runAndAwaitFirstEvent } from './utils'
 import { loggingFactory } from './logger'
-import { JobManagerOptions, JobState, MessageCodesEnum } from './definitions'
-import { broadcast } from './communication'
-import { HashExceedsSizeError, JobsError } from './errors'
+import {
+  BackoffJitter,
+  JobManagerOptions,
+  JobPriority,
+  JobState,
+  MessageCodesEnum,
+  PinProgress,
+  RetryPolicyOptions
+} from './definitions'
+import { broadcast, broadcastProgress, forgetProgress } from './communication'
+import { JobsError } from './errors'
 
 const logger = loggingFactory('jobs')
 export const FINISHED_EVENT_NAME = 'finished'
+export const PROGRESS_EVENT_NAME = 'progress'
 
 export abstract class Job extends EventEmitter {
   public readonly entity: JobModel
 
+  /**
+   * Overrides number of retries configured for JobsManager.
+   * Used for resumed Jobs that already consumed part of their retries.
+   */
+  public retries?: number
+
+  /**
+   * Whether the consumer is notified when the Job starts, is retried, finishes or fails.
+   */
+  public readonly notifiesConsumer: boolean = true
+
+  /**
+   * Peer(s) that the data are fetched from in the current attempt, it is recorded with the attempt.
+   */
+  protected peer?: string
+
+  private attempts = 0
+  private readonly abortController = new AbortController()
+
   protected constructor (name: string, agreementReference: string, type?: string) {
     super()
 
@@ -37,9 +70,115 @@ export abstract class Job extends EventEmitter {
     return this.entity.agreementReference
   }
 
+  get priority (): number {
+    return this.entity.priority
+  }
+
+  /**
+   * Signal that is aborted when the Job is cancelled, implementations of `_run()`
+   * should pass it to all the long-running operations.
+   */
+  get signal (): AbortSignal {
+    return this.abortController.signal
+  }
+
+  get isCancelled (): boolean {
+    return this.abortController.signal.aborted
+  }
+
+  /**
+   * Aborts the signal of the Job without persisting anything.
+   * Useful for Jobs whose `_run()` is executed directly as part of other Job.
+   */
+  public abort (): void {
+    this.abortController.abort()
+  }
+
+  /**
+   * Aborts the Job. If the Job is not running at the moment it is directly marked as cancelled,
+   * otherwise it is marked once the running `_run()` is terminated.
+   */
+  public async cancel (): Promise<void> {
+    this.abort()
+
+    if (this.entity.state !== JobState.RUNNING) {
+      this.entity.state = JobState.CANCELLED
+      this.entity.finish = new Date(Date.now())
+      await this.entity.save()
+    }
+  }
+
+  /**
+   * Called once the Job reached its terminal state, eq. it finished, failed without any tries left
+   * or it was cancelled. Implementations release there what is kept across the attempts.
+   */
+  public finalize (): Promise<void> {
+    return Promise.resolve()
+  }
+
+  /**
+   * Records the attempt that just ended with its outcome.
+   *
+   * @param bytes fetched during the attempt
+   * @param error that the attempt failed with
+   */
+  private async recordAttempt (bytes: number, error?: Error): Promise<void> {
+    await JobAttemptModel.create({
+      jobId: this.entity.id,
+      attempt: this.attempts,
+      state: this.entity.state,
+      start: this.entity.start,
+      finish: this.entity.finish,
+      duration: this.entity.finish.getTime() - this.entity.start.getTime(),
+      errorClass: error?.name ?? null,
+      errorMessage: error?.message ?? null,
+      bytes,
+      peer: this.peer ?? null
+    })
+  }
+
+  /**
+   * Computes throughput (bytes per second) of the fetching measured from the first to the last
+   * progress event of the attempt, so the preparation of the fetching (eq. looking up the peers) is not counted.
+   *
+   * Only the first attempt of a fresh Job is measured, as the attempts following failed or interrupted ones
+   * walk also through the blocks that were already fetched and are present locally.
+   *
+   * @param first progress event of the attempt with its timestamp
+   * @param last progress event of the attempt with its timestamp
+   */
+  private measureThroughput (first?: [number, PinProgress], last?: [number, PinProgress]): number | null {
+    if (!first || !last || this.attempts > 1 || this.retries !== undefined) {
+      return null
+    }
+
+    const [start, { bytes: startBytes }] = first
+    const [end, { bytes: endBytes }] = last
+
+    if (end <= start || endBytes <= startBytes) {
+      return null
+    }
+
+    return (endBytes - startBytes) / ((end - start) / 1000)
+  }
+
   public run (): void {
     (async () => {
+      let bytes = 0
+      let firstProgress: [number, PinProgress] | undefined
+      let lastProgress: [number, PinProgress] | undefined
+      const recordProgress = (progress: PinProgress): void => {
+        bytes = progress.bytes
+        lastProgress = [Date.now(), progress]
+        firstProgress = firstProgress ?? lastProgress
+      }
+      this.on(PROGRESS_EVENT_NAME, recordProgress)
+      this.peer = undefined
+      let error: Error | undefined
+
       try {
+        this.attempts++
+        this.entity.tries = this.attempts
         this.entity.state = JobState.RUNNING
         this.entity.start = new Date(Date.now())
         await this.entity.save()
@@ -48,49 +187,205 @@ export abstract class Job extends EventEmitter {
 
         this.entity.state = JobState.FINISHED
         this.entity.finish = new Date(Date.now())
-        await this.entity.save()
-        this.emit(FINISHED_EVENT_NAME)
+        this.entity.throughput = this.measureThroughput(firstProgress, lastProgress)
       } catch (e) {
-        this.entity.state = JobState.ERRORED
+        error = e
+        this.entity.state = this.isCancelled ? JobState.CANCELLED : JobState.ERRORED
         this.entity.finish = new Date(Date.now())
         this.entity.errorMessage = e.message
+        this.entity.errorCode = e.code ?? null
+      } finally {
+        this.removeListener(PROGRESS_EVENT_NAME, recordProgress)
+      }
+
+      // The outcome has to be emitted even when it is not persisted, otherwise the Job would hold its slot forever
+      try {
         await this.entity.save()
-        this.emit('error', e)
+        await this.recordAttempt(bytes, error)
+      } catch (e) {
+        logger.error(`Persisting ${this.entity.state} state of job ${this.name} failed: ${e.message}`)
       }
-    })()
+
+      if (error) {
+        this.emit('error', error)
+      } else {
+        this.emit(FINISHED_EVENT_NAME)
+      }
+    })().catch(logger.error)
   }
 
-  public async retry (count: number, total: number): Promise<void> {
+  /**
+   * Marks the Job as backing off before its next try.
+   *
+   * @param count number of the failed try
+   * @param total number of tries of the Job
+   * @param nextAttemptAt when the Job is going to be tried again
+   */
+  public async retry (count: number, total: number, nextAttemptAt: Date): Promise<void> {
     this.entity.retry = `${count}/${total}`
     this.entity.state = JobState.BACKOFF
+    this.entity.nextAttemptAt = nextAttemptAt
     await this.entity.save()
   }
 }
 
+function parseDelay (value: string | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+
+  const delay = parse(value)
+
+  if (delay === null || delay === undefined) {
+    throw new Error(`Invalid jobs.retryPolicy.${name} value`)
+  }
+
+  return delay
+}
+
+/**
+ * Computes delays between the retries of a Job. The delays grow exponentially from the base delay
+ * up to the max delay, the jitter randomizes them so Jobs that failed at the same time
+ * (eq. because the IPFS node was unreachable) are not retried all at the same time again.
+ */
+export class BackoffPolicy {
+  public readonly baseDelay: number
+  public readonly multiplier: number
+  public readonly maxDelay: number
+  public readonly jitter: BackoffJitter
+
+  constructor (baseDelay = 0, multiplier = 1, maxDelay = Infinity, jitter = BackoffJitter.NONE) {
+    this.baseDelay = baseDelay
+    this.multiplier = multiplier
+    this.maxDelay = maxDelay
+    this.jitter = jitter
+  }
+
+  /**
+   * Creates new policy with values of this policy overridden by the configured ones.
+   *
+   * @param options
+   */
+  public extend (options: RetryPolicyOptions): BackoffPolicy {
+    if (options.jitter && !Object.values(BackoffJitter).includes(options.jitter)) {
+      throw new Error(`Invalid jobs.retryPolicy.jitter value ${options.jitter}`)
+    }
+
+    return new BackoffPolicy(
+      parseDelay(options.baseDelay, 'baseDelay') ?? this.baseDelay,
+      options.multiplier ?? this.multiplier,
+      parseDelay(options.maxDelay, 'maxDelay') ?? this.maxDelay,
+      options.jitter ?? this.jitter
+    )
+  }
+
+  /**
+   * Computes delay (in ms) before the retry following the given failed try.
+   *
+   * @param retry number of the failed try, starting with 1
+   * @param previousDelay delay before the previous retry, used by the decorrelated jitter
+   */
+  public getDelay (retry: number, previousDelay = 0): number {
+    const delay = Math.min(this.maxDelay, this.baseDelay * Math.pow(this.multiplier, retry - 1))
+
+    switch (this.jitter) {
+      case BackoffJitter.FULL:
+        return Math.round(Math.random() * delay)
+      case BackoffJitter.DECORRELATED: {
+        const upperBound = Math.max(this.baseDelay, previousDelay * this.multiplier)
+        return Math.min(this.maxDelay, Math.round(this.baseDelay + Math.random() * (upperBound - this.baseDelay)))
+      }
+      default:
+        return delay
+    }
+  }
+}
+
+/**
+ * Maps the deprecated backoff options to the retry policy. They take precedence over the retry policy,
+ * as its base delay and multiplier are always present in the default config.
+ *
+ * @param options
+ */
+function legacyRetryPolicy (options?: JobManagerOptions): RetryPolicyOptions {
+  const policy: RetryPolicyOptions = {}
+
+  if (options?.backoffTime !== undefined) {
+    policy.baseDelay = `${options.backoffTime}ms`
+  }
+
+  if (options?.exponentialBackoff !== undefined) {
+    policy.multiplier = options.exponentialBackoff ? 2 : 1
+  }
+
+  if (Object.keys(policy).length > 0) {
+    logger.warn('Options jobs.backoffTime and jobs.exponentialBackoff are deprecated and they override jobs.retryPolicy.baseDelay and jobs.retryPolicy.multiplier, use only the latter ones!')
+  }
+
+  return policy
+}
+
 const DEFAULT_RETRIES = 3
+const DEFAULT_CONCURRENCY = 2
 
 export class JobsManager {
   private readonly retries: number
-  private readonly backoffStart: number
-  private readonly isExponentialBackoff: boolean
+  private readonly backoffPolicy: BackoffPolicy
+  private readonly backoffOverrides = new Map<string, BackoffPolicy>()
+  private readonly concurrency: number
+  private readonly queue: Job[] = []
+  private readonly runningJobs = new Map<Job, Promise<void>>()
 
   constructor (options?: JobManagerOptions) {
     this.retries = options?.retries ?? DEFAULT_RETRIES
-    this.backoffStart = options?.backoffTime ?? 0
-    this.isExponentialBackoff = options?.exponentialBackoff ?? false
+    this.concurrency = options?.concurrency ?? DEFAULT_CONCURRENCY
+
+    if (this.concurrency < 1) {
+      throw new Error('Jobs concurrency has to be at least 1!')
+    }
+
+    const { overrides, ...retryPolicy } = options?.retryPolicy ?? {}
+    this.backoffPolicy = new BackoffPolicy().extend({ ...retryPolicy, ...legacyRetryPolicy(options) })
+
+    for (const [type, override] of Object.entries(overrides ?? {})) {
+      this.backoffOverrides.set(type, this.backoffPolicy.extend(override))
+    }
   }
 
-  private async handleError (job: Job, e: JobsError | HashExceedsSizeError): Promise<never> {
-    if (HashExceedsSizeError.is(e)) {
-      await broadcast(MessageCodesEnum.E_AGREEMENT_SIZE_LIMIT_EXCEEDED, {
-        hash: job.name,
-        size: e.currentSize,
-        expectedSize: e.expectedSize,
-        agreementReference: job.agreementReference
-      })
+  /**
+   * Returns the backoff policy for Jobs of the given type.
+   *
+   * @param type
+   */
+  public getBackoffPolicy (type?: string): BackoffPolicy {
+    return (type && this.backoffOverrides.get(type)) || this.backoffPolicy
+  }
+
+  /**
+   * Number of Jobs that wait in the queue for their execution.
+   */
+  get queuedCount (): number {
+    return this.queue.length
+  }
+
+  /**
+   * Number of Jobs that are currently being executed.
+   */
+  get runningCount (): number {
+    return this.runningJobs.size
+  }
+
+  private async handleError (job: Job, e: Error): Promise<never> {
+    if (!job.notifiesConsumer) {
+      throw e
+    }
+
+    if (e instanceof JobsError) {
+      await broadcast(e.messageCode, e.toPayload(job.name, job.agreementReference))
     } else {
       await broadcast(MessageCodesEnum.E_GENERAL, {
         hash: job.name,
+        agreementReference: job.agreementReference,
         error: e.message
       })
     }
@@ -98,48 +393,221 @@ export class JobsManager {
     throw e
   }
 
+  /**
+   * Persists the Job and puts it into the queue that is processed in the background.
+   *
+   * Jobs with higher priority are executed first, Jobs with the same priority in FIFO order.
+   * At most `concurrency` Jobs are executed at the same time.
+   *
+   * The returned Promise resolves as soon as the Job is persisted, it does not wait for the Job
+   * to finish. The outcome of the Job is reported to the consumer through the broadcasted messages.
+   *
+   * @param job
+   * @param priority
+   */
+  public async enqueue (job: Job, priority = JobPriority.NORMAL): Promise<void> {
+    if (this.isPending(job)) {
+      logger.verbose(`Job ${job.name} for agreement ${job.agreementReference} is already pending, skipping`)
+      return
+    }
+
+    job.entity.priority = priority
+    await job.entity.save()
+
+    // Find first Job with lower priority and put the new Job in front of it
+    const index = this.queue.findIndex(queuedJob => queuedJob.priority < priority)
+    this.queue.splice(index === -1 ? this.queue.length : index, 0, job)
+    logger.verbose(`Job ${job.name} queued (queued: ${this.queuedCount}, running: ${this.runningCount})`)
+
+    this.processQueue()
+  }
+
+  /**
+   * Marks Jobs of the given type that were left unfinished by previous run of the service
+   * (eq. because of crash or restart) as interrupted.
+   *
+   * Returns the interrupted entities so the owner of the Jobs can create fresh Jobs for them.
+   *
+   * @param type
+   */
+  public async interruptStaleJobs (type: string): Promise<JobModel[]> {
+    const staleJobs = await JobModel.findAll({
+      where: {
+        type,
+        state: { [Op.in]: [JobState.CREATED, JobState.BACKOFF, JobState.RUNNING] }
+      }
+    })
+
+    for (const entity of staleJobs) {
+      logger.info(`Job ${entity.name} for agreement ${entity.agreementReference} was interrupted in state ${entity.state}`)
+      entity.state = JobState.INTERRUPTED
+      entity.finish = new Date(Date.now())
+      await entity.save()
+    }
+
+    return staleJobs
+  }
+
+  /**
+   * Computes how many tries are left for a Job based on the failed attempts recorded on its entity.
+   * The interrupted attempt is not counted, so at least one try is always left.
+   *
+   * @param entity
+   */
+  public remainingRetries (entity: JobModel): number {
+    const failedTries = entity.retry ? parseInt(entity.retry.split('/')[0]) : 0
+
+    return Math.max(1, this.retries - (isNaN(failedTries) ? 0 : failedTries))
+  }
+
+  /**
+   * Cancels all the queued and running Jobs of the Agreement, when types are given only the Jobs of these types.
+   *
+   * Resolves once all the running Jobs are terminated, so none of them can finish
+   * after the call (eq. pin the data after it was already unpinned).
+   *
+   * @param agreementReference
+   * @param types
+   */
+  public async cancel (agreementReference: string, types?: string[]): Promise<void> {
+    const isCancelled = (job: Job): boolean =>
+      job.agreementReference === agreementReference && (!types || types.includes(job.type))
+    const queuedJobs = this.queue.filter(isCancelled)
+
+    for (const job of queuedJobs) {
+      this.queue.splice(this.queue.indexOf(job), 1)
+      await job.cancel()
+    }
+
+    const runningJobs = Array.from(this.runningJobs.entries())
+      .filter(([job]) => isCancelled(job))
+
+    for (const [job] of runningJobs) {
+      await job.cancel()
+    }
+    await Promise.all(runningJobs.map(([, finished]) => finished))
+
+    if (queuedJobs.length + runningJobs.length > 0) {
+      logger.info(`Cancelled ${queuedJobs.length + runningJobs.length} job(s) for agreement ${agreementReference}`)
+    }
+  }
+
+  /**
+   * Resolves once there are no queued nor running Jobs.
+   */
+  public async idle (): Promise<void> {
+    while (this.runningJobs.size > 0) {
+      await Promise.all(this.runningJobs.values())
+    }
+  }
+
+  private isPending (job: Job): boolean {
+    const isSame = (other: Job): boolean =>
+      other.name === job.name && other.agreementReference === job.agreementReference && other.type === job.type
+
+    return this.queue.some(isSame) || Array.from(this.runningJobs.keys()).some(isSame)
+  }
+
+  private processQueue (): void {
+    while (this.runningJobs.size < this.concurrency && this.queue.length > 0) {
+      const job = this.queue.shift() as Job
+
+      const finished = this.run(job)
+        .catch(e => {
+          logger.error(`Job ${job.name} for agreement ${job.agreementReference} failed: ${e.message}`)
+        })
+        .finally(() => {
+          this.runningJobs.delete(job)
+          this.processQueue()
+        })
+      this.runningJobs.set(job, finished)
+    }
+  }
+
+  /**
+   * Runs the Job with retries, while it runs its progress is broadcasted to the consumer.
+   *
+   * @param job
+   */
   public async run (job: Job): Promise<void> {
+    const reportProgress = (progress: PinProgress): void => {
+      if (job.notifiesConsumer) {
+        broadcastProgress({ hash: job.name, agreementReference: job.agreementReference, ...progress }).catch(logger.error)
+      }
+    }
+    job.on(PROGRESS_EVENT_NAME, reportProgress)
+
+    try {
+      await this.runWithRetries(job)
+    } finally {
+      job.removeListener(PROGRESS_EVENT_NAME, reportProgress)
+      await job.finalize().catch(e => logger.error(`Finalizing of job ${job.name} failed: ${e.message}`))
+
+      if (job.notifiesConsumer) {
+        forgetProgress(job.agreementReference)
+      }
+    }
+  }
+
+  private async runWithRetries (job: Job): Promise<void> {
     const start = process.hrtime()
-    let backoff = this.backoffStart
+    const retries = job.retries ?? this.retries
+    const backoffPolicy = this.getBackoffPolicy(job.type)
+    let backoff = 0
+
+    for (let retry = 1; retry <= retries; retry++) {
+      if (job.isCancelled) {
+        logger.info(`Job ${job.name} was cancelled`)
+        return
+      }
 
-    for (let retry = 1; retry <= this.retries; retry++) {
       try {
         logger.info(`Starting job (${job.name})`)
-        await broadcast(MessageCodesEnum.I_HASH_START, { hash: job.name, agreementReference: job.agreementReference })
+
+        if (job.notifiesConsumer) {
+          await broadcast(MessageCodesEnum.I_HASH_START, { hash: job.name, agreementReference: job.agreementReference })
+        }
+
         await runAndAwaitFirstEvent(job, FINISHED_EVENT_NAME, () => { job.run() })
-        await broadcast(MessageCodesEnum.I_HASH_PINNED, { hash: job.name, agreementReference: job.agreementReference })
+
+        if (job.notifiesConsumer) {
+          await broadcast(MessageCodesEnum.I_HASH_PINNED, { hash: job.name, agreementReference: job.agreementReference })
+        }
         logger.info(`Finished job in ${process.hrtime(start)[0]}s (${job.name})`)
         break // Lets exit then!
       } catch (e) {
+        if (job.isCancelled) {
+          logger.info(`Job ${job.name} was cancelled while running`)
+          return
+        }
+
         // If the Error directly specifies that it does not make sense to retry the Job, exit immediately
         if (e.retryable === false) {
           await this.handleError(job, e)
           return
         }
 
-        logger.error(`While ${retry}/${this.retries} try of job ${job.name} error happened: ${e}`)
+        logger.error(`While ${retry}/${retries} try of job ${job.name} error happened: ${e}`)
 
-        if (retry === this.retries) { // Last retry ==> reject the promise
+        if (retry === retries) { // Last retry ==> reject the promise
           await this.handleError(job, e)
         } else {
-          await job.retry(retry, this.retries)
+          backoff = backoffPolicy.getDelay(retry, backoff)
+          await job.retry(retry, retries, new Date(Date.now() + backoff))
 
-          await broadcast(MessageCodesEnum.W_HASH_RETRY, {
-            hash: job.name,
-            retryNumber: retry,
-            totalRetries: this.retries,
-            error: e.message,
-            agreementReference: job.agreementReference
-          })
+          if (job.notifiesConsumer) {
+            await broadcast(MessageCodesEnum.W_HASH_RETRY, {
+              hash: job.name,
+              retryNumber: retry,
+              totalRetries: retries,
+              error: e.message,
+              agreementReference: job.agreementReference
+            })
+          }
 
           if (backoff > 0) {
             logger.verbose(`Backing off for ${backoff / 1000}s (${job.name})`)
-            await sleep(backoff)
-
-            // eslint-disable-next-line max-depth
-            if (this.isExponentialBackoff) {
-              backoff *= 2
-            }
+            await abortableSleep(backoff, job.signal)
           }
         }
       }
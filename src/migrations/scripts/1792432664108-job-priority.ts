@@ -0,0 +1,15 @@
+import Sequelize, { QueryInterface } from 'sequelize'
+import { Sequelize as SequelizeTs } from 'sequelize-typescript'
+
+export default {
+  async up (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    await queryInterface.addColumn('jobs', 'priority', {
+      type: Sequelize.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    })
+  },
+  async down (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    await queryInterface.removeColumn('jobs', 'priority')
+  }
+}
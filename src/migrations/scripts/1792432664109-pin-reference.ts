@@ -0,0 +1,36 @@
+import Sequelize, { QueryInterface } from 'sequelize'
+import { Sequelize as SequelizeTs } from 'sequelize-typescript'
+
+const schema = {
+  id: {
+    type: Sequelize.INTEGER,
+    field: 'id',
+    autoIncrement: true,
+    primaryKey: true,
+    allowNull: false
+  },
+  dataReference: {
+    type: Sequelize.STRING,
+    field: 'dataReference',
+    allowNull: false
+  },
+  agreementReference: {
+    type: Sequelize.STRING(67),
+    field: 'agreementReference',
+    allowNull: false,
+    unique: true
+  }
+}
+
+export default {
+  async up (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    await queryInterface.createTable('pin_reference', schema)
+
+    // Currently active Agreements have their data pinned
+    await sequelize.query('INSERT INTO pin_reference (dataReference, agreementReference) SELECT dataReference, agreementReference FROM storage_agreement WHERE isActive = 1')
+  },
+  // eslint-disable-next-line require-await
+  async down (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    return queryInterface.dropTable('pin_reference')
+  }
+}
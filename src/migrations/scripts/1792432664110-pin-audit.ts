@@ -0,0 +1,43 @@
+import Sequelize, { QueryInterface } from 'sequelize'
+import { Sequelize as SequelizeTs } from 'sequelize-typescript'
+
+const schema = {
+  agreementReference: {
+    type: Sequelize.STRING(67),
+    field: 'agreementReference',
+    primaryKey: true,
+    allowNull: false
+  },
+  dataReference: {
+    type: Sequelize.STRING,
+    field: 'dataReference',
+    allowNull: false
+  },
+  isPinned: {
+    type: Sequelize.BOOLEAN,
+    field: 'isPinned',
+    allowNull: false
+  },
+  repinCount: {
+    type: Sequelize.INTEGER,
+    field: 'repinCount',
+    allowNull: false,
+    defaultValue: 0
+  },
+  auditedAt: {
+    type: Sequelize.DATE,
+    field: 'auditedAt',
+    allowNull: false
+  }
+}
+
+export default {
+  // eslint-disable-next-line require-await
+  async up (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    return queryInterface.createTable('pin_audit', schema)
+  },
+  // eslint-disable-next-line require-await
+  async down (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    return queryInterface.dropTable('pin_audit')
+  }
+}
@@ -0,0 +1,49 @@
+import Sequelize, { QueryInterface } from 'sequelize'
+import { Sequelize as SequelizeTs } from 'sequelize-typescript'
+
+const schema = {
+  id: {
+    type: Sequelize.INTEGER,
+    field: 'id',
+    autoIncrement: true,
+    primaryKey: true,
+    allowNull: false
+  },
+  agreementReference: {
+    type: Sequelize.STRING(67),
+    field: 'agreementReference',
+    allowNull: false
+  },
+  name: {
+    type: Sequelize.STRING,
+    field: 'name',
+    allowNull: false
+  },
+  target: {
+    type: Sequelize.STRING,
+    field: 'target',
+    allowNull: false
+  },
+  isPinned: {
+    type: Sequelize.BOOLEAN,
+    field: 'isPinned',
+    allowNull: false,
+    defaultValue: false
+  },
+  resolvedAt: {
+    type: Sequelize.DATE,
+    field: 'resolvedAt',
+    allowNull: false
+  }
+}
+
+export default {
+  async up (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    await queryInterface.createTable('ipns_resolution', schema)
+    await queryInterface.addIndex('ipns_resolution', ['agreementReference'])
+  },
+  // eslint-disable-next-line require-await
+  async down (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    return queryInterface.dropTable('ipns_resolution')
+  }
+}
@@ -0,0 +1,11 @@
+import Sequelize, { QueryInterface } from 'sequelize'
+import { Sequelize as SequelizeTs } from 'sequelize-typescript'
+
+export default {
+  async up (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    await queryInterface.addColumn('storage_agreement', 'ipfsNode', Sequelize.STRING)
+  },
+  async down (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    await queryInterface.removeColumn('storage_agreement', 'ipfsNode')
+  }
+}
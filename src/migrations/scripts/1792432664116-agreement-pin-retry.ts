@@ -0,0 +1,13 @@
+import Sequelize, { QueryInterface } from 'sequelize'
+import { Sequelize as SequelizeTs } from 'sequelize-typescript'
+
+export default {
+  async up (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    await queryInterface.addColumn('storage_agreement', 'pinRetryStep', { type: Sequelize.INTEGER, allowNull: false, defaultValue: 0 })
+    await queryInterface.addColumn('storage_agreement', 'pinRetryDeadline', Sequelize.DATE)
+  },
+  async down (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    await queryInterface.removeColumn('storage_agreement', 'pinRetryStep')
+    await queryInterface.removeColumn('storage_agreement', 'pinRetryDeadline')
+  }
+}
@@ -0,0 +1,73 @@
+import Sequelize, { QueryInterface } from 'sequelize'
+import { Sequelize as SequelizeTs } from 'sequelize-typescript'
+
+const schema = {
+  id: {
+    type: Sequelize.INTEGER,
+    field: 'id',
+    autoIncrement: true,
+    primaryKey: true,
+    allowNull: false
+  },
+  jobId: {
+    type: Sequelize.INTEGER,
+    field: 'jobId',
+    allowNull: false,
+    references: { model: 'jobs', key: 'id' },
+    onDelete: 'CASCADE'
+  },
+  attempt: {
+    type: Sequelize.INTEGER,
+    field: 'attempt',
+    allowNull: false
+  },
+  state: {
+    type: Sequelize.STRING,
+    field: 'state',
+    allowNull: false
+  },
+  start: {
+    type: Sequelize.DATE,
+    field: 'start',
+    allowNull: false
+  },
+  finish: {
+    type: Sequelize.DATE,
+    field: 'finish',
+    allowNull: false
+  },
+  duration: {
+    type: Sequelize.INTEGER,
+    field: 'duration',
+    allowNull: false
+  },
+  errorClass: {
+    type: Sequelize.STRING,
+    field: 'errorClass'
+  },
+  errorMessage: {
+    type: Sequelize.STRING,
+    field: 'errorMessage'
+  },
+  bytes: {
+    type: Sequelize.INTEGER,
+    field: 'bytes',
+    allowNull: false,
+    defaultValue: 0
+  },
+  peer: {
+    type: Sequelize.STRING,
+    field: 'peer'
+  }
+}
+
+export default {
+  // eslint-disable-next-line require-await
+  async up (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    return queryInterface.createTable('job_attempts', schema)
+  },
+  // eslint-disable-next-line require-await
+  async down (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    return queryInterface.dropTable('job_attempts')
+  }
+}
@@ -0,0 +1,43 @@
+import Sequelize, { QueryInterface, QueryTypes } from 'sequelize'
+import { Sequelize as SequelizeTs } from 'sequelize-typescript'
+import BigNumber from 'bignumber.js'
+
+interface AgreementRow {
+  agreementReference: string
+  size: string
+  billingPeriod: string
+  billingPrice: string
+  availableFunds: string
+  lastPayout: string
+}
+
+export default {
+  async up (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    await queryInterface.addColumn('storage_agreement', 'fundsExhaustedAt', Sequelize.DATE)
+    await queryInterface.addIndex('storage_agreement', ['fundsExhaustedAt'])
+
+    // Backfill the exhaustion time of the existing Agreements, the same way as Agreement.computeFundsExhaustedAt()
+    const agreements = await sequelize.query<AgreementRow>(
+      'SELECT agreementReference, size, billingPeriod, billingPrice, availableFunds, lastPayout FROM storage_agreement',
+      { type: QueryTypes.SELECT }
+    )
+
+    for (const agreement of agreements) {
+      const periodPrice = new BigNumber(agreement.size).times(agreement.billingPrice)
+
+      if (periodPrice.gt(0)) {
+        const exhaustedAt = new BigNumber(agreement.availableFunds).div(periodPrice).integerValue(BigNumber.ROUND_FLOOR)
+          .times(agreement.billingPeriod).times(1000).plus(new Date(agreement.lastPayout).getTime())
+        await queryInterface.bulkUpdate(
+          'storage_agreement',
+          { fundsExhaustedAt: new Date(BigNumber.min(exhaustedAt, 8640000000000000).toNumber()) },
+          { agreementReference: agreement.agreementReference }
+        )
+      }
+    }
+  },
+  async down (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    await queryInterface.removeIndex('storage_agreement', ['fundsExhaustedAt'])
+    await queryInterface.removeColumn('storage_agreement', 'fundsExhaustedAt')
+  }
+}
@@ -0,0 +1,19 @@
+import Sequelize, { QueryInterface } from 'sequelize'
+import { Sequelize as SequelizeTs } from 'sequelize-typescript'
+
+export default {
+  async up (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    await queryInterface.changeColumn('jobs', 'priority', {
+      type: Sequelize.INTEGER,
+      allowNull: false,
+      defaultValue: 10
+    })
+  },
+  async down (queryInterface: QueryInterface, sequelize: SequelizeTs): Promise<void> {
+    await queryInterface.changeColumn('jobs', 'priority', {
+      type: Sequelize.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    })
+  }
+}
@@ -1,10 +1,14 @@
-import { Table, Column, Model, DataType, HasMany } from 'sequelize-typescript'
+import { Table, Column, Model, DataType, HasMany, Index, BeforeValidate } from 'sequelize-typescript'
 import BigNumber from 'bignumber.js'
 
 import { BigNumberStringType } from '../sequelize'
 import { bnFloor } from '../utils'
+import { AgreementStatus } from '../definitions'
 import JobModel from './job.model'
 
+// Maximal timestamp that can be represented by Date
+const MAX_DATE = 8640000000000000
+
 @Table({
   freezeTableName: true,
   tableName: 'storage_agreement',
@@ -48,9 +52,52 @@ export default class Agreement extends Model {
   @Column({ type: DataType.NUMBER() })
   expiredAtBlockNumber!: number | null
 
+  // Time when the funds of the Agreement stop covering the next period, null when they never run out.
+  // It is recomputed whenever the Agreement is saved, see updateFundsExhaustedAt().
+  @Index
+  @Column({ type: DataType.DATE })
+  fundsExhaustedAt!: Date | null
+
+  // Time until which the data of expired Agreement are kept pinned
+  @Column({ type: DataType.DATE })
+  retainedUntil!: Date | null
+
+  // Number of failed pinnings that were already handled by the escalating re-attempts
+  @Column({ allowNull: false, defaultValue: 0 })
+  pinRetryStep!: number
+
+  // Time after which the errored pinning is not re-attempted anymore
+  @Column({ type: DataType.DATE })
+  pinRetryDeadline!: Date | null
+
+  // Time of the next re-attempt of the errored pinning, null when it was not scheduled yet
+  @Column({ type: DataType.DATE })
+  pinRetryAt!: Date | null
+
+  // Name of the IPFS node that the data are pinned on when the Agreements are sharded across multiple nodes
+  @Column({ type: DataType.STRING() })
+  ipfsNode!: string | null
+
   @HasMany(() => JobModel)
   jobs!: JobModel[]
 
+  /**
+   * Recomputes the time of funds exhaustion before the Agreement is persisted.
+   * The hook is run also by upsert, which determines the updated fields before the hook,
+   * hence the field is added to them explicitly.
+   *
+   * @param agreement
+   * @param options
+   */
+  @BeforeValidate
+  static updateFundsExhaustedAt (agreement: Agreement, options: { fields?: string[] }): void {
+    agreement.fundsExhaustedAt = agreement.computeFundsExhaustedAt()
+
+    if (options.fields && !options.fields.includes('fundsExhaustedAt')) {
+      options.fields.push('fundsExhaustedAt')
+    }
+  }
+
   periodPrice (): BigNumber {
     return this.size.times(this.billingPrice)
   }
@@ -72,6 +119,20 @@ export default class Agreement extends Model {
       : this.availableFunds
   }
 
+  /**
+   * Computes the time from which the Agreement does not have sufficient funds anymore,
+   * which is after all the prepaid periods since the last payout elapse.
+   * Returns null if the Agreement is free of charge.
+   */
+  computeFundsExhaustedAt (): Date | null {
+    if (!this.periodPrice().gt(0)) {
+      return null
+    }
+
+    const exhaustedAt = this.numberOfPrepaidPeriods.times(this.billingPeriod).times(1000).plus(new Date(this.lastPayout).getTime())
+    return new Date(BigNumber.min(exhaustedAt, MAX_DATE).toNumber())
+  }
+
   @Column(DataType.VIRTUAL)
   get numberOfPrepaidPeriods (): BigNumber {
     return this.periodPrice().gt(0)
@@ -98,6 +159,32 @@ export default class Agreement extends Model {
     return this.availableFunds.minus(this.getToBePayedOut()).gte(this.periodPrice())
   }
 
+  @Column(DataType.VIRTUAL)
+  get status (): AgreementStatus {
+    if (this.isActive) {
+      return AgreementStatus.ACTIVE
+    }
+
+    return this.retainedUntil ? AgreementStatus.INACTIVE_RETAINED : AgreementStatus.INACTIVE
+  }
+
+  /**
+   * Reactivates the Agreement whose data are retained after its expiration if it has again sufficient funds.
+   * The data are still pinned so there is no need to pin them again.
+   *
+   * @returns true if the Agreement was reactivated
+   */
+  reactivate (): boolean {
+    if (this.status !== AgreementStatus.INACTIVE_RETAINED || !this.hasSufficientFunds) {
+      return false
+    }
+
+    this.isActive = true
+    this.retainedUntil = null
+    this.expiredAtBlockNumber = null
+    return true
+  }
+
   /**
    * Field represents the time (in seconds) until the agreement expires
    */
@@ -1,4 +1,4 @@
-import { Table, Column, Model } from 'sequelize-typescript'
+import { Table, Column, Model, DataType } from 'sequelize-typescript'
 
 @Table({
   freezeTableName: true,
@@ -10,5 +10,18 @@ export default class DirectAddressModel extends Model {
   peerId!: string
 
   @Column({ allowNull: false })
-  agreementReference!: number
+  agreementReference!: string
+
+  // Validated multiaddrs announced by the consumer, all of them include the peerId
+  @Column({
+    type: DataType.TEXT,
+    get (this: DirectAddressModel): string[] {
+      const value = this.getDataValue('multiaddrs')
+      return value ? JSON.parse(value) : []
+    },
+    set (this: DirectAddressModel, value: string[]): void {
+      this.setDataValue('multiaddrs', JSON.stringify(value))
+    }
+  })
+  multiaddrs!: string[]
 }
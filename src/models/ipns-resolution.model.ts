@@ -0,0 +1,31 @@
+import { Table, Column, Model, DataType } from 'sequelize-typescript'
+
+/**
+ * History of resolutions of IPNS name that Agreement references.
+ * New record is created only when the name resolves to a different target.
+ */
+@Table({
+  freezeTableName: true,
+  tableName: 'ipns_resolution',
+  timestamps: false
+})
+export default class IpnsResolutionModel extends Model {
+  @Column({ type: DataType.STRING(67), allowNull: false })
+  agreementReference!: string
+
+  // The IPNS name in form of /ipns/<key>
+  @Column({ type: DataType.STRING(), allowNull: false })
+  name!: string
+
+  // The resolved path in form of /ipfs/<cid>
+  @Column({ type: DataType.STRING(), allowNull: false })
+  target!: string
+
+  // Whether the target is pinned for the Agreement, it is not when it was superseded by newer target
+  // or when it exceeded the Agreement's size
+  @Column({ allowNull: false, defaultValue: false })
+  isPinned!: boolean
+
+  @Column({ allowNull: false })
+  resolvedAt!: Date
+}
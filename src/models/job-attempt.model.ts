@@ -0,0 +1,52 @@
+import { Table, Column, Model, DataType, ForeignKey, BelongsTo } from 'sequelize-typescript'
+import JobModel from './job.model'
+
+/**
+ * Record of single attempt of a Job, a Job that is retried has more of them.
+ */
+@Table({
+  freezeTableName: true,
+  tableName: 'job_attempts',
+  timestamps: false
+})
+export default class JobAttemptModel extends Model {
+  @ForeignKey(() => JobModel)
+  @Column({ allowNull: false })
+  jobId!: number
+
+  @BelongsTo(() => JobModel)
+  job!: JobModel
+
+  // Order of the attempt starting with 1
+  @Column({ allowNull: false })
+  attempt!: number
+
+  // State of the Job in which the attempt ended
+  @Column({ allowNull: false })
+  state!: string
+
+  @Column({ allowNull: false })
+  start!: Date
+
+  @Column({ allowNull: false })
+  finish!: Date
+
+  // Duration of the attempt in ms
+  @Column({ allowNull: false })
+  duration!: number
+
+  // Name of the error class that the attempt failed with
+  @Column({ type: DataType.STRING })
+  errorClass!: string | null
+
+  @Column({ type: DataType.STRING })
+  errorMessage!: string | null
+
+  // Number of bytes fetched during the attempt
+  @Column({ allowNull: false, defaultValue: 0 })
+  bytes!: number
+
+  // Peer(s) that the data were fetched from during the attempt
+  @Column({ type: DataType.STRING })
+  peer!: string | null
+}
@@ -1,5 +1,7 @@
-import { Table, Column, Model, DataType, ForeignKey, BelongsTo } from 'sequelize-typescript'
+import { Table, Column, Model, DataType, ForeignKey, BelongsTo, HasMany } from 'sequelize-typescript'
 import Agreement from './agreement.model'
+import JobAttemptModel from './job-attempt.model'
+import { JobPriority } from '../definitions'
 
 @Table({
   freezeTableName: true,
@@ -17,12 +19,16 @@ export default class JobModel extends Model {
   @BelongsTo(() => Agreement)
   agreement!: Agreement
 
-  @Column({ type: DataType.ENUM('created', 'backoff', 'running', 'errored', 'finished'), allowNull: false, defaultValue: 'created' })
+  @Column({ type: DataType.ENUM('created', 'backoff', 'running', 'errored', 'finished', 'interrupted', 'cancelled'), allowNull: false, defaultValue: 'created' })
   state!: string
 
+  // Number of attempts of the Job, see JobAttemptModel for their details
   @Column({ allowNull: false, defaultValue: 1 })
   tries!: number
 
+  @Column({ allowNull: false, defaultValue: JobPriority.NORMAL })
+  priority!: number
+
   @Column
   type!: string
 
@@ -37,4 +43,19 @@ export default class JobModel extends Model {
 
   @Column
   errorMessage!: string
+
+  // Code of the error that the last attempt failed with, see errors.ts
+  @Column({ type: DataType.STRING })
+  errorCode!: string | null
+
+  // When the Job in backoff is going to be tried again
+  @Column({ type: DataType.DATE })
+  nextAttemptAt!: Date | null
+
+  @HasMany(() => JobAttemptModel)
+  attempts!: JobAttemptModel[]
+
+  // Bytes per second transferred by the successful attempt of the Job
+  @Column({ type: DataType.FLOAT })
+  throughput!: number | null
 }
@@ -0,0 +1,27 @@
+import { Table, Column, Model, DataType } from 'sequelize-typescript'
+
+/**
+ * Result of the latest audit of Agreement's pinned data.
+ */
+@Table({
+  freezeTableName: true,
+  tableName: 'pin_audit',
+  timestamps: false
+})
+export default class PinAuditModel extends Model {
+  @Column({ type: DataType.STRING(67), primaryKey: true, allowNull: false })
+  agreementReference!: string
+
+  @Column({ type: DataType.STRING(), allowNull: false })
+  dataReference!: string
+
+  @Column({ allowNull: false })
+  isPinned!: boolean
+
+  // How many times the data had to be pinned again as it was found missing
+  @Column({ allowNull: false, defaultValue: 0 })
+  repinCount!: number
+
+  @Column({ allowNull: false })
+  auditedAt!: Date
+}
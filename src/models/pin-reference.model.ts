@@ -0,0 +1,18 @@
+import { Table, Column, Model, DataType } from 'sequelize-typescript'
+
+/**
+ * Tracks which Agreements reference given data reference, so the data
+ * is unpinned only when the last Agreement referencing it goes away.
+ */
+@Table({
+  freezeTableName: true,
+  tableName: 'pin_reference',
+  timestamps: false
+})
+export default class PinReferenceModel extends Model {
+  @Column({ type: DataType.STRING(), allowNull: false })
+  dataReference!: string
+
+  @Column({ type: DataType.STRING(67), allowNull: false, unique: true })
+  agreementReference!: string
+}
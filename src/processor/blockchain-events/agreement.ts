@@ -9,7 +9,7 @@ import {
 } from '@rsksmart/rif-marketplace-storage/types/web3-v1-contracts/StorageManager'
 
 import { loggingFactory } from '../../logger'
-import { EventError, NotPinnedError } from '../../errors'
+import { EventError } from '../../errors'
 import { buildHandler, decodeByteArray } from '../../utils'
 import Agreement from '../../models/agreement.model'
 import type {
@@ -55,6 +55,7 @@ const handlers: HandlersObject<BlockchainAgreementEventsWithNewAgreement, Blockc
       availableFunds,
       token: tokenAddress,
       expiredAtBlockNumber: null, // If not new, then lets reset the expiredAt column
+      retainedUntil: null,
       lastPayout: await getBlockDate(options.eth, blockNumber)
     }
 
@@ -63,6 +64,7 @@ const handlers: HandlersObject<BlockchainAgreementEventsWithNewAgreement, Blockc
 
     if (options.manager) {
       await broadcast(MessageCodesEnum.I_AGREEMENT_NEW, { agreementReference: agreementReference })
+      // Only queues the pinning so the event processing is not blocked, the outcome is broadcasted later on
       await options.manager.pin(dataReference, agreement.size, agreement.agreementReference)
     }
   },
@@ -76,17 +78,13 @@ const handlers: HandlersObject<BlockchainAgreementEventsWithNewAgreement, Blockc
     }
 
     agreement.isActive = false
+    agreement.retainedUntil = null
     await agreement.save()
 
     if (options.manager) {
-      try {
-        await options.manager.unpin(agreement.dataReference)
-      } catch (e) {
-        // We ignore not-pinned errors because the files might be already GCed
-        if (e.code !== NotPinnedError.code) {
-          throw e
-        }
-      }
+      // Pinning might be still in progress, it has to be stopped so it does not finish after the unpinning
+      await options.manager.cancel(agreement.agreementReference)
+      await options.manager.unpin(agreement.dataReference, agreement.agreementReference)
       await broadcast(MessageCodesEnum.I_AGREEMENT_STOPPED, { agreementReference: agreement.agreementReference })
     }
 
@@ -102,9 +100,14 @@ const handlers: HandlersObject<BlockchainAgreementEventsWithNewAgreement, Blockc
     }
 
     agreement.availableFunds = agreement.availableFunds.plus(new BigNumber(amount))
+    const reactivated = agreement.reactivate()
     await agreement.save()
 
     logger.info(`Agreement ${id} was topped up with ${amount}.`)
+
+    if (reactivated) {
+      logger.info(`Agreement ${id} with retained data was reactivated.`)
+    }
   },
 
   async AgreementFundsWithdrawn (event: BlockchainAgreementEventsWithNewAgreement): Promise<void> {
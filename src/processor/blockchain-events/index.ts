@@ -29,6 +29,7 @@ import type {
   BlockchainAgreementEvents,
   BlockchainEventsWithProvider
 } from '../../definitions'
+import { JobPriority } from '../../definitions'
 import type { ProviderManager } from '../../providers'
 import { EventTransformer, getEventTransformer } from '../../event-transformer'
 
@@ -185,7 +186,7 @@ export class BlockchainEventsProcessor extends EventProcessor {
     precacheLogger.info('Pinning valid Agreements')
     for (const agreement of await Agreement.findAll()) {
       if (agreement.hasSufficientFunds) {
-        await this.manager.pin(agreement.dataReference, agreement.size, agreement.agreementReference)
+        await this.manager.pin(agreement.dataReference, agreement.size, agreement.agreementReference, { priority: JobPriority.LOW })
       }
     }
   }
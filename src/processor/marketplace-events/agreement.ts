@@ -8,7 +8,7 @@ import type {
 } from '../../definitions'
 import { buildHandler } from '../../utils'
 import Agreement from '../../models/agreement.model'
-import { EventError, NotPinnedError } from '../../errors'
+import { EventError } from '../../errors'
 import { MessageCodesEnum } from '../../definitions'
 import { broadcast } from '../../communication'
 
@@ -23,6 +23,7 @@ const handlers: HandlersObject<MarketplaceEvent, BaseEventProcessorOptions> = {
 
     if (options.manager) {
       await broadcast(MessageCodesEnum.I_AGREEMENT_NEW, { agreementReference: newAgreement.agreementReference })
+      // Only queues the pinning so the event processing is not blocked, the outcome is broadcasted later on
       await options.manager.pin(newAgreement.dataReference, agreement.size, agreement.agreementReference)
     }
   },
@@ -36,17 +37,13 @@ const handlers: HandlersObject<MarketplaceEvent, BaseEventProcessorOptions> = {
     }
 
     agreement.isActive = false
+    agreement.retainedUntil = null
     await agreement.save()
 
     if (options.manager) {
-      try {
-        await options.manager.unpin(agreement.dataReference)
-      } catch (e) {
-        // We ignore not-pinned errors because the files might be already GCed
-        if (e.code !== NotPinnedError.code) {
-          throw e
-        }
-      }
+      // Pinning might be still in progress, it has to be stopped so it does not finish after the unpinning
+      await options.manager.cancel(agreement.agreementReference)
+      await options.manager.unpin(agreement.dataReference, agreement.agreementReference)
       await broadcast(MessageCodesEnum.I_AGREEMENT_STOPPED, { agreementReference: agreement.agreementReference })
     }
 
@@ -62,9 +59,14 @@ const handlers: HandlersObject<MarketplaceEvent, BaseEventProcessorOptions> = {
     }
 
     agreement.availableFunds = new BigNumber(availableFunds)
+    const reactivated = agreement.reactivate()
     await agreement.save()
 
     logger.info(`Agreement ${id} was topped up with ${availableFunds}.`)
+
+    if (reactivated) {
+      logger.info(`Agreement ${id} with retained data was reactivated.`)
+    }
   },
 
   async AgreementFundsWithdrawn (event: MarketplaceEvent): Promise<void> {
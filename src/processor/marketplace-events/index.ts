@@ -19,6 +19,7 @@ import type {
   EventsHandler,
   Processor
 } from '../../definitions'
+import { JobPriority } from '../../definitions'
 import type { ProviderManager } from '../../providers'
 import { errorHandler as originalErrorHandler } from '../../utils'
 
@@ -129,7 +130,7 @@ export class MarketplaceEventsProcessor extends EventProcessor {
 
         // Pin agreements
         if (agreement.isActive && agreement.hasSufficientFunds) {
-          await this.manager.pin(agreement.dataReference, agreement.size, agreement.agreementReference)
+          await this.manager.pin(agreement.dataReference, agreement.size, agreement.agreementReference, { priority: JobPriority.LOW })
         }
       }
     }
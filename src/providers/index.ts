@@ -1,42 +1,369 @@
 import { BigNumber } from 'bignumber.js'
+import config from 'config'
+import { literal, Op } from 'sequelize'
+import { getObject } from 'sequelize-store'
 
-import { Provider } from '../definitions'
+import {
+  IpfsClusterOptions,
+  IpfsNodeOptions,
+  JobPriority,
+  JobState,
+  MessageCodesEnum,
+  PinOptions,
+  Provider,
+  ProviderCapability
+} from '../definitions'
+import { loggingFactory } from '../logger'
+import { broadcast } from '../communication'
+import { NotPinnedError, UnknownProviderError } from '../errors'
+import { duplicateObject } from '../utils'
+import { Job, JobsManager } from '../jobs-manager'
 import { IpfsProvider } from './ipfs'
+import { IpfsClusterProvider } from './ipfs-cluster'
+import { ShardedIpfsProvider } from './ipfs-sharded'
+import { IpnsProvider, TargetProvider } from './ipns'
+import PinReferenceModel from '../models/pin-reference.model'
+import Agreement from '../models/agreement.model'
+import JobModel from '../models/job.model'
+
+const logger = loggingFactory('providers')
+
+export const UNPIN_JOB_TYPE = 'unpin'
+
+/**
+ * Job that unpins the hash using its Provider, so the unpinning is retried when the Provider fails.
+ * The references are verified again before unpinning as other Agreement might start to reference
+ * the hash while the Job was waiting for its execution.
+ */
+export class UnpinJob extends Job {
+  public readonly notifiesConsumer = false
+  private readonly provider: Provider
+
+  constructor (provider: Provider, hash: string, agreementReference: string) {
+    super(hash, agreementReference, UNPIN_JOB_TYPE)
+
+    this.provider = provider
+  }
+
+  async _run (): Promise<void> {
+    const references = await PinReferenceModel.count({ where: { dataReference: this.name } })
+
+    if (references > 0) {
+      logger.info(`Not unpinning ${this.name} as it is referenced again by ${references} Agreement(s)`)
+      return
+    }
+
+    try {
+      await this.provider.unpin(this.name)
+    } catch (e) {
+      if (e.code !== NotPinnedError.code) {
+        throw e
+      }
+
+      logger.info(`${this.name} was already unpinned`)
+    }
+  }
+}
 
 /**
- * Provider which redirects the pin/unpin requests to the correct provider
- * based on the structure of the hash.
+ * Registry of providers which redirects the pin/unpin requests to the correct provider
+ * based on the path prefix of the hash (eq. `/ipfs/`) that the providers declare.
+ *
+ * It also keeps track of Agreements referencing given hash, so the hash is unpinned
+ * only when the last Agreement referencing it goes away, and refuses pinning
+ * of Agreements that would overflow the Offer's total capacity.
  */
-export class ProviderManager implements Provider {
-  private ipfs?: IpfsProvider
+export class ProviderManager {
+  public readonly jobsManager: JobsManager
+  private readonly providers = new Map<string, Provider>()
+
+  constructor (jobsManager: JobsManager) {
+    this.jobsManager = jobsManager
+  }
 
   public register (provider: Provider): void {
-    if (provider instanceof IpfsProvider) {
-      this.ipfs = provider
+    for (const prefix of provider.prefixes) {
+      if (this.providers.has(prefix)) {
+        throw new Error(`Provider for prefix ${prefix} is already registered!`)
+      }
+
+      this.providers.set(prefix, provider)
+    }
+  }
+
+  /**
+   * Finds Provider that handles the hash, when more prefixes match the hash the longest one wins.
+   *
+   * @param hash
+   */
+  private findProvider (hash: string): Provider | undefined {
+    const prefix = Array.from(this.providers.keys())
+      .filter(prefix => hash.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0]
+
+    return prefix === undefined ? undefined : this.providers.get(prefix)
+  }
+
+  /**
+   * @param hash
+   * @throws UnknownProviderError if no registered Provider handles the hash
+   */
+  private getProvider (hash: string): Provider {
+    const provider = this.findProvider(hash)
+
+    if (!provider) {
+      throw new UnknownProviderError(`Unknown type of hash ${hash}`)
+    }
+
+    return provider
+  }
+
+  private getProvidersWith (capability: ProviderCapability): Provider[] {
+    return Array.from(new Set(this.providers.values()))
+      .filter(provider => provider.capabilities.includes(capability))
+  }
+
+  /**
+   * Pins the hash with the Provider that handles it.
+   *
+   * If there is no such Provider the consumer is notified with E_UNKNOWN_PROVIDER message.
+   * Resolves with false when the pinning was refused (eq. there is no Provider or the capacity would be exceeded).
+   *
+   * @param hash
+   * @param expectedSize
+   * @param agreementReference
+   * @param options
+   */
+  public async pin (hash: string, expectedSize: BigNumber, agreementReference: string, options?: PinOptions): Promise<boolean> {
+    let provider: Provider
+    try {
+      provider = this.getProvider(hash)
+    } catch (e) {
+      if (!UnknownProviderError.is(e)) {
+        throw e
+      }
+
+      logger.error(`Agreement ${agreementReference} can't be pinned: ${e.message}`)
+      await broadcast(MessageCodesEnum.E_UNKNOWN_PROVIDER, { agreementReference, hash, error: e.message })
+      return false
+    }
+
+    if (!await this.hasCapacityFor(hash, expectedSize, agreementReference)) {
+      return false
+    }
+
+    await PinReferenceModel.findOrCreate({ where: { agreementReference }, defaults: { dataReference: hash } })
+    await provider.pin(hash, expectedSize, agreementReference, options)
+    return true
+  }
+
+  /**
+   * Computes the capacity that is already committed to active Agreements that are pinned (or being pinned)
+   * and to expired Agreements whose data are retained and verifies that the new Agreement fits into the Offer's total capacity.
+   * If it does not fit, the consumer is notified with E_CAPACITY_EXCEEDED message.
+   *
+   * When the total capacity is not known (eq. Offer was not created yet) the check is skipped.
+   *
+   * @param hash
+   * @param expectedSize
+   * @param agreementReference
+   */
+  private async hasCapacityFor (hash: string, expectedSize: BigNumber, agreementReference: string): Promise<boolean> {
+    const totalCapacity = getObject().totalCapacity as string | undefined
+
+    if (!totalCapacity) {
+      return true
+    }
+
+    // Summed up by the DB so the pinning of many Agreements (eq. during precache) does not load all of them every time
+    const committedSize = await Agreement.aggregate<string | number | null, Agreement>('size', 'sum', {
+      where: {
+        [Op.or]: [{ isActive: true }, { retainedUntil: { [Op.ne]: null } }],
+        agreementReference: {
+          [Op.ne]: agreementReference,
+          [Op.in]: literal('(SELECT agreementReference FROM pin_reference)')
+        }
+      }
+    })
+    const committedCapacity = new BigNumber(committedSize ?? 0)
+
+    if (committedCapacity.plus(expectedSize).lte(totalCapacity)) {
+      return true
     }
+
+    logger.warn(`Agreement ${agreementReference} of size ${expectedSize} does not fit into the Offer's capacity (committed ${committedCapacity} of ${totalCapacity}), not pinning ${hash}`)
+    await broadcast(MessageCodesEnum.E_CAPACITY_EXCEEDED, {
+      agreementReference,
+      hash,
+      size: expectedSize.toNumber(),
+      committedCapacity: committedCapacity.toNumber(),
+      totalCapacity: new BigNumber(totalCapacity).toNumber()
+    })
+
+    return false
   }
 
-  public async pin (hash: string, expectedSize: BigNumber, agreementReference: string): Promise<void> {
-    if (hash.startsWith('/ipfs/')) {
-      if (!this.ipfs) {
-        throw new Error('IPFS provider was not registered!')
+  /**
+   * Queues again the UnpinJobs that were left unfinished by previous run of the service
+   * and lets the Providers resume their work.
+   */
+  public async resume (): Promise<void> {
+    for (const entity of await this.jobsManager.interruptStaleJobs(UNPIN_JOB_TYPE)) {
+      const provider = this.findProvider(entity.name)
+
+      if (!provider) {
+        logger.warn(`Not resuming unpinning of ${entity.name} as there is no Provider for it`)
+      } else {
+        await this.enqueueUnpin(provider, entity.name, entity.agreementReference, entity)
       }
+    }
+
+    for (const provider of this.getProvidersWith(ProviderCapability.RESUME)) {
+      await provider.resume?.()
+    }
+  }
+
+  /**
+   * Updates pinned data of mutable references (eq. IPNS names).
+   */
+  public async refresh (): Promise<void> {
+    for (const provider of this.getProvidersWith(ProviderCapability.REFRESH)) {
+      await provider.refresh?.()
+    }
+  }
+
+  /**
+   * Verifies that the hash is still pinned.
+   *
+   * Resolves with undefined if there is no Provider of the hash or it does not support the verification.
+   *
+   * @param hash
+   */
+  public async isPinned (hash: string): Promise<boolean | undefined> {
+    const provider = this.findProvider(hash)
+
+    if (!provider) {
+      logger.warn(`Can't verify pin of ${hash} as there is no Provider for it`)
+      return undefined
+    }
+
+    if (!provider.capabilities.includes(ProviderCapability.PIN_STATUS)) {
+      return undefined
+    }
+
+    return await provider.isPinned?.(hash)
+  }
+
+  /**
+   * Cancels pinning of the Agreement that is still in progress, unpinning of the Agreement's data is not cancelled.
+   * Should be called before unpinning so the pinning does not finish afterwards.
+   *
+   * @param agreementReference
+   */
+  public async cancel (agreementReference: string): Promise<void> {
+    for (const provider of this.getProvidersWith(ProviderCapability.CANCEL)) {
+      await provider.cancel?.(agreementReference)
+    }
+  }
+
+  private async enqueueUnpin (provider: Provider, hash: string, agreementReference: string, staleEntity?: JobModel): Promise<void> {
+    const job = new UnpinJob(provider, hash, agreementReference)
 
-      await this.ipfs.pin(hash, expectedSize, agreementReference)
-    } else {
-      throw new Error(`Unknown type of hash ${hash}`)
+    if (staleEntity) {
+      job.retries = this.jobsManager.remainingRetries(staleEntity)
+      logger.info(`Resuming unpinning of ${hash} with ${job.retries} tries left`)
     }
+
+    // Unpinning frees the space for the pinning, so it does not wait behind the queued pinning Jobs
+    await this.jobsManager.enqueue(job, JobPriority.HIGH)
   }
 
-  public async unpin (hash: string): Promise<void> {
-    if (hash.startsWith('/ipfs/')) {
-      if (!this.ipfs) {
-        throw new Error('IPFS provider was not registered!')
+  /**
+   * Queues again the unpinning of hashes whose latest UnpinJob failed without any tries left
+   * (eq. because the IPFS node was down for a while), so the data are not left pinned forever.
+   * The unpinning is re-attempted until it succeeds or the hash turns out to be not pinned anymore.
+   */
+  public async retryUnpinning (): Promise<void> {
+    const failedJobs = await JobModel.findAll({
+      where: {
+        state: JobState.ERRORED,
+        id: { [Op.in]: literal(`(SELECT MAX(id) FROM jobs WHERE type = '${UNPIN_JOB_TYPE}' GROUP BY name)`) }
+      }
+    })
+
+    for (const entity of failedJobs) {
+      const provider = this.findProvider(entity.name)
+
+      if (provider) {
+        logger.info(`Re-attempting unpinning of ${entity.name}`)
+        await this.enqueueUnpin(provider, entity.name, entity.agreementReference)
       }
+    }
+  }
+
+  /**
+   * Removes reference of the Agreement to the hash and queues UnpinJob of the hash
+   * if there is no other Agreement referencing it.
+   *
+   * The returned Promise resolves as soon as the UnpinJob is queued, the unpinning is retried when it fails.
+   * Hashes without a Provider were never pinned, so there is nothing to unpin.
+   *
+   * @param hash
+   * @param agreementReference
+   */
+  public async unpin (hash: string, agreementReference: string): Promise<void> {
+    const provider = this.findProvider(hash)
+
+    if (!provider) {
+      logger.warn(`Not unpinning ${hash} of Agreement ${agreementReference} as there is no Provider for it`)
+      return
+    }
 
-      await this.ipfs.unpin(hash)
-    } else {
-      throw new Error(`Unknown type of hash ${hash}`)
+    await PinReferenceModel.destroy({ where: { dataReference: hash, agreementReference } })
+    const remainingReferences = await PinReferenceModel.count({ where: { dataReference: hash } })
+
+    if (remainingReferences > 0) {
+      logger.info(`Not unpinning ${hash} as it is still referenced by ${remainingReferences} other Agreement(s)`)
+      return
     }
+
+    await this.enqueueUnpin(provider, hash, agreementReference)
   }
 }
+
+/**
+ * Creates ProviderManager with registered providers based on the config.
+ *
+ * The IPFS node is always connected as it is used for resolving of IPNS names, but when IPFS Cluster
+ * is enabled the `/ipfs/` hashes are pinned through the Cluster instead of the single node. When multiple
+ * IPFS nodes are configured, the `/ipfs/` hashes are sharded across them.
+ *
+ * @param jobsManager
+ */
+export async function createProviderManager (jobsManager: JobsManager): Promise<ProviderManager> {
+  const manager = new ProviderManager(jobsManager)
+  const ipfs = await IpfsProvider.bootstrap(jobsManager, duplicateObject(config.get<string>('ipfs.clientOptions')))
+  const clusterOptions = duplicateObject(config.get<IpfsClusterOptions>('ipfsCluster'))
+  const nodes = duplicateObject(config.get<IpfsNodeOptions[]>('ipfs.nodes'))
+
+  // Targets of IPNS names are pinned on the same node(s) as the `/ipfs/` hashes, except for the Cluster
+  let ipnsTargets: TargetProvider = ipfs
+
+  if (clusterOptions.enabled) {
+    manager.register(await IpfsClusterProvider.bootstrap(jobsManager, clusterOptions, ipfs.client))
+    logger.info('IPFS Cluster provider initialized')
+  } else if (nodes.length > 0) {
+    const sharded = await ShardedIpfsProvider.bootstrap(jobsManager, nodes)
+    manager.register(sharded)
+    ipnsTargets = sharded
+    logger.info(`Sharded IPFS provider initialized with nodes ${nodes.map(node => node.name).join(', ')}`)
+  } else {
+    manager.register(ipfs)
+    logger.info('IPFS provider initialized')
+  }
+
+  manager.register(new IpnsProvider(jobsManager, ipfs, ipnsTargets))
+  logger.info('IPNS provider initialized')
+
+  return manager
+}
@@ -0,0 +1,301 @@
+import CID from 'cids'
+import config from 'config'
+import BigNumber from 'bignumber.js'
+import fetch, { RequestInit } from 'node-fetch'
+import parse from 'parse-duration'
+
+import { JobState, PinOptions, Provider, ProviderCapability } from '../definitions'
+import type { IpfsClusterOptions } from '../definitions'
+import { loggingFactory } from '../logger'
+import { Job, JobsManager } from '../jobs-manager'
+import { HashExceedsSizeError, InvalidCidError, JobsError, NotPinnedError, PinTimeoutError, RetryPolicy } from '../errors'
+import { abortableSleep, BytesInMb } from '../utils'
+import { estimateTimeout } from '../throughput'
+import { getMetaFileSize, IpfsClient } from './ipfs'
+import Agreement from '../models/agreement.model'
+
+const logger = loggingFactory('ipfs-cluster')
+
+const CLUSTER_PIN_JOB_TYPE = 'ipfs-cluster - pin'
+const DEFAULT_POLL_INTERVAL = 5000
+
+interface ClusterPeerStatus {
+  peername?: string
+  status: string
+  error?: string
+}
+
+export interface ClusterPinStatus {
+  // eslint-disable-next-line camelcase
+  peer_map: Record<string, ClusterPeerStatus>
+}
+
+export interface ClusterId {
+  id: string
+  version: string
+}
+
+export interface ClusterPin {
+  cid: Record<string, string> | string
+  name?: string
+}
+
+/**
+ * Maps status of the pin on one cluster's peer to the state of Job.
+ * Returns undefined for statuses that are not relevant for pinning (eq. the peer does not pin the CID).
+ *
+ * @param status
+ */
+export function clusterStatusToJobState (status: string): JobState | undefined {
+  switch (status) {
+    case 'pin_queued':
+      return JobState.CREATED
+    case 'pinning':
+      return JobState.RUNNING
+    case 'pinned':
+      return JobState.FINISHED
+    case 'pin_error':
+    case 'cluster_error':
+    case 'error':
+    case 'unexpectedly_unpinned':
+      return JobState.ERRORED
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Aggregates statuses of all the peers that the cluster allocated for the CID into single JobState.
+ * The pin is finished only when all the allocated peers have it pinned.
+ *
+ * @param pinStatus
+ */
+export function aggregateClusterStatus (pinStatus: ClusterPinStatus): JobState {
+  const states = Object.values(pinStatus.peer_map ?? {})
+    .map(peer => clusterStatusToJobState(peer.status))
+    .filter(state => state !== undefined)
+
+  if (states.includes(JobState.ERRORED)) {
+    return JobState.ERRORED
+  }
+
+  if (states.length > 0 && states.every(state => state === JobState.FINISHED)) {
+    return JobState.FINISHED
+  }
+
+  if (states.includes(JobState.RUNNING) || states.includes(JobState.FINISHED)) {
+    return JobState.RUNNING
+  }
+
+  return JobState.CREATED
+}
+
+/**
+ * Minimal client for IPFS Cluster REST API.
+ */
+export class IpfsClusterClient {
+  private readonly url: string
+
+  constructor (url: string) {
+    this.url = url.replace(/\/$/, '')
+  }
+
+  private async request<T> (method: string, path: string, options?: RequestInit): Promise<T> {
+    const res = await fetch(`${this.url}${path}`, { method, ...options })
+
+    if (!res.ok) {
+      const error = new Error(`IPFS Cluster request ${method} ${path} failed: ${res.status} ${res.statusText}`) as Error & { status: number }
+      error.status = res.status
+      throw error
+    }
+
+    return res.json() as Promise<T>
+  }
+
+  id (): Promise<ClusterId> {
+    return this.request<ClusterId>('GET', '/id')
+  }
+
+  pin (cid: CID, replicationMin: number, replicationMax: number, name: string, signal?: RequestInit['signal']): Promise<ClusterPin> {
+    return this.request<ClusterPin>('POST', `/pins/${cid.toString()}?replication-min=${replicationMin}&replication-max=${replicationMax}&name=${encodeURIComponent(name)}`, { signal })
+  }
+
+  unpin (cid: CID): Promise<ClusterPin> {
+    return this.request<ClusterPin>('DELETE', `/pins/${cid.toString()}`)
+  }
+
+  status (cid: CID, signal?: RequestInit['signal']): Promise<ClusterPinStatus> {
+    return this.request<ClusterPinStatus>('GET', `/pins/${cid.toString()}`, { signal })
+  }
+}
+
+/**
+ * Job that pins the hash in IPFS Cluster and waits until all the allocated peers have it pinned.
+ *
+ * The Cluster does not report size of the pinned data, so the size of the Agreement is verified
+ * against the size declared by the root object, which is fetched through the IPFS node.
+ */
+export class ClusterPinJob extends Job {
+  private readonly client: IpfsClusterClient
+  private readonly ipfs: IpfsClient
+  private readonly options: IpfsClusterOptions
+  private readonly expectedSize: BigNumber
+
+  constructor (client: IpfsClusterClient, ipfs: IpfsClient, options: IpfsClusterOptions, hash: string, expectedSize: BigNumber, agreementReference: string) {
+    super(hash, agreementReference, CLUSTER_PIN_JOB_TYPE)
+
+    this.client = client
+    this.ipfs = ipfs
+    this.options = options
+    this.expectedSize = expectedSize
+  }
+
+  async _run (): Promise<void> {
+    const cid = this.parseCid()
+    const pollInterval = parse(this.options.statusPollInterval ?? '') ?? DEFAULT_POLL_INTERVAL
+
+    const sizeMb = await getMetaFileSize(this.ipfs, cid, this.signal)
+
+    if (sizeMb.gt(this.expectedSize)) {
+      logger.error(`The hash ${cid.toString()} has cumulative size of ${sizeMb.toString()} megabytes while it was expected to have ${this.expectedSize} megabytes.`)
+      throw new HashExceedsSizeError('The hash exceeds payed size!', sizeMb, this.expectedSize)
+    }
+
+    const timeout = await estimateTimeout(CLUSTER_PIN_JOB_TYPE, sizeMb.times(BytesInMb))
+    const deadline = Date.now() + timeout
+
+    logger.info(`Pinning hash ${cid.toString()} in cluster with replication ${this.options.replicationFactorMin}/${this.options.replicationFactorMax} and timeout ${timeout}ms`)
+    await this.client.pin(cid, this.options.replicationFactorMin ?? -1, this.options.replicationFactorMax ?? -1, this.agreementReference, this.signal)
+
+    while (!this.isCancelled) {
+      const status = await this.client.status(cid, this.signal)
+      const state = aggregateClusterStatus(status)
+      logger.verbose(`(${cid.toString()}) Cluster pin state: ${state}`)
+
+      if (state === JobState.FINISHED) {
+        return
+      }
+
+      if (state === JobState.ERRORED) {
+        const errors = Object.entries(status.peer_map)
+          .filter(([, peer]) => clusterStatusToJobState(peer.status) === JobState.ERRORED)
+          .map(([peerId, peer]) => `${peer.peername ?? peerId}: ${peer.error || peer.status}`)
+        throw new JobsError(`Pinning of ${cid.toString()} in cluster failed: ${errors.join(', ')}`)
+      }
+
+      if (Date.now() >= deadline) {
+        throw new PinTimeoutError(`Pinning of ${cid.toString()} in cluster timed out after ${timeout}ms`, timeout)
+      }
+
+      await abortableSleep(Math.min(pollInterval, deadline - Date.now()), this.signal)
+    }
+
+    throw new JobsError(`Pinning of ${cid.toString()} in cluster was cancelled`, RetryPolicy.NEVER)
+  }
+
+  private parseCid (): CID {
+    const hash = this.name.replace('/ipfs/', '')
+
+    try {
+      return new CID(hash)
+    } catch (e) {
+      throw new InvalidCidError(`${hash} is not valid CID: ${e.message}`)
+    }
+  }
+}
+
+/**
+ * Provider that pins the data using IPFS Cluster, so the data are replicated on multiple IPFS nodes.
+ * It handles the same hashes as the single node IpfsProvider so only one of them should be registered.
+ */
+export class IpfsClusterProvider implements Provider {
+  public readonly prefixes = ['/ipfs/']
+  public readonly capabilities = [ProviderCapability.RESUME, ProviderCapability.CANCEL, ProviderCapability.PIN_STATUS]
+  private readonly client: IpfsClusterClient
+  private readonly ipfs: IpfsClient
+  private readonly options: IpfsClusterOptions
+  private readonly jobsManager: JobsManager
+
+  constructor (jobsManager: JobsManager, client: IpfsClusterClient, ipfs: IpfsClient, options: IpfsClusterOptions) {
+    this.jobsManager = jobsManager
+    this.client = client
+    this.ipfs = ipfs
+    this.options = options
+  }
+
+  /**
+   * @param jobsManager
+   * @param options
+   * @param ipfs IPFS node used for fetching sizes of the pinned data
+   */
+  static async bootstrap (jobsManager: JobsManager, options: IpfsClusterOptions, ipfs: IpfsClient): Promise<IpfsClusterProvider> {
+    const url = options.url ?? config.get<string>('ipfsCluster.url')
+    const client = new IpfsClusterClient(url)
+
+    try {
+      const { version } = await client.id()
+      logger.info(`Connected to IPFS Cluster ${version}`)
+    } catch (e) {
+      if (e.code === 'ECONNREFUSED') {
+        throw new Error(`No running IPFS Cluster on ${url}`)
+      }
+
+      throw e
+    }
+
+    return new this(jobsManager, client, ipfs, options)
+  }
+
+  /**
+   * Queues pinning of the hash in the cluster.
+   *
+   * @param hash
+   * @param expectedSize
+   * @param agreementReference
+   * @param options
+   */
+  pin (hash: string, expectedSize: BigNumber, agreementReference: string, options?: PinOptions): Promise<void> {
+    const job = new ClusterPinJob(this.client, this.ipfs, this.options, hash, expectedSize, agreementReference)
+    return this.jobsManager.enqueue(job, options?.priority)
+  }
+
+  async resume (): Promise<void> {
+    const staleJobs = await this.jobsManager.interruptStaleJobs(CLUSTER_PIN_JOB_TYPE)
+
+    for (const entity of staleJobs) {
+      const agreement = await Agreement.findByPk(entity.agreementReference)
+
+      if (agreement?.isActive && agreement.hasSufficientFunds) {
+        const job = new ClusterPinJob(this.client, this.ipfs, this.options, entity.name, agreement.size, agreement.agreementReference)
+        job.retries = this.jobsManager.remainingRetries(entity)
+        logger.info(`Resuming pinning of ${entity.name} with ${job.retries} tries left`)
+        await this.jobsManager.enqueue(job, entity.priority)
+      }
+    }
+  }
+
+  cancel (agreementReference: string): Promise<void> {
+    return this.jobsManager.cancel(agreementReference, [CLUSTER_PIN_JOB_TYPE])
+  }
+
+  async isPinned (hash: string): Promise<boolean> {
+    const status = await this.client.status(new CID(hash.replace('/ipfs/', '')))
+
+    return aggregateClusterStatus(status) === JobState.FINISHED
+  }
+
+  async unpin (hash: string): Promise<void> {
+    logger.info(`Unpinning hash from cluster: ${hash}`)
+    const cid = new CID(hash.replace('/ipfs/', ''))
+
+    try {
+      await this.client.unpin(cid)
+    } catch (e) {
+      if (e.status === 404) {
+        throw new NotPinnedError(`${cid.toString()} is not pinned in the cluster`)
+      }
+
+      throw e
+    }
+  }
+}
@@ -0,0 +1,337 @@
+import BigNumber from 'bignumber.js'
+import { Op } from 'sequelize'
+import { getObject } from 'sequelize-store'
+
+import { IpfsNodeOptions, JobPriority, PinOptions, Provider, ProviderCapability } from '../definitions'
+import { loggingFactory } from '../logger'
+import { Job, JobsManager, PROGRESS_EVENT_NAME } from '../jobs-manager'
+import { NotPinnedError } from '../errors'
+import { bytesToMegabytes } from '../utils'
+import { IpfsClient, IpfsProvider, PIN_JOB_TYPE, PinJob } from './ipfs'
+import Agreement from '../models/agreement.model'
+import JobModel from '../models/job.model'
+
+const logger = loggingFactory('ipfs:sharded')
+
+export const REBALANCE_JOB_TYPE = 'ipfs - rebalance'
+
+interface IpfsNode {
+  name: string
+  provider: IpfsProvider
+}
+
+async function unpinFromNode (node: IpfsNode, hash: string): Promise<boolean> {
+  try {
+    await node.provider.unpin(hash)
+    return true
+  } catch (e) {
+    if (e.code !== NotPinnedError.code) {
+      throw e
+    }
+
+    return false
+  }
+}
+
+/**
+ * Job that moves pinned data of Agreement(s) from one IPFS node to another.
+ * The data are first pinned on the target node, then the Agreements are reassigned and only after that
+ * the data are unpinned from the source node, so the data are always pinned at least on one of the nodes.
+ */
+export class RebalanceJob extends Job {
+  public readonly notifiesConsumer = false
+  private readonly source: IpfsNode
+  private readonly target: IpfsNode
+  private readonly expectedSize: BigNumber
+
+  constructor (source: IpfsNode, target: IpfsNode, hash: string, expectedSize: BigNumber, agreementReference: string) {
+    super(hash, agreementReference, REBALANCE_JOB_TYPE)
+
+    this.source = source
+    this.target = target
+    this.expectedSize = expectedSize
+  }
+
+  private async pinOnTarget (): Promise<void> {
+    const pinJob = new PinJob(this.target.provider.client, this.name, this.expectedSize, this.agreementReference)
+    const abort = (): void => pinJob.abort()
+    this.signal.addEventListener('abort', abort)
+    pinJob.on(PROGRESS_EVENT_NAME, progress => this.emit(PROGRESS_EVENT_NAME, progress))
+
+    try {
+      await pinJob._run()
+    } finally {
+      this.signal.removeEventListener('abort', abort)
+    }
+  }
+
+  async _run (): Promise<void> {
+    logger.info(`Moving ${this.name} from IPFS node ${this.source.name} to ${this.target.name}`)
+    await this.pinOnTarget()
+
+    // All the Agreements of the same hash are kept on the same node
+    const agreements = await Agreement.findAll({ where: { dataReference: this.name, ipfsNode: this.source.name } })
+
+    for (const agreement of agreements) {
+      agreement.ipfsNode = this.target.name
+      await agreement.save()
+    }
+
+    await unpinFromNode(this.source, this.name)
+  }
+}
+
+/**
+ * Provider that shards the Agreements across multiple IPFS nodes (eq. each having its repo on different disk).
+ *
+ * Each Agreement is assigned to the node with the most free capacity at the time of its first pinning
+ * and the node is persisted with the Agreement, so all further operations with the hash are directed to it.
+ * Agreements of the same hash are assigned to the same node.
+ *
+ * When a node is added to the configuration, Agreements are moved to it until the free capacity is balanced.
+ */
+export class ShardedIpfsProvider implements Provider {
+  public readonly prefixes = ['/ipfs/']
+  public readonly capabilities = [ProviderCapability.RESUME, ProviderCapability.CANCEL, ProviderCapability.PIN_STATUS]
+  private readonly nodes: Map<string, IpfsProvider>
+  private readonly jobsManager: JobsManager
+
+  constructor (jobsManager: JobsManager, nodes: Map<string, IpfsProvider>) {
+    this.jobsManager = jobsManager
+    this.nodes = nodes
+  }
+
+  static async bootstrap (jobsManager: JobsManager, options: IpfsNodeOptions[]): Promise<ShardedIpfsProvider> {
+    const nodes = new Map<string, IpfsProvider>()
+
+    for (const { name, clientOptions } of options) {
+      if (nodes.has(name)) {
+        throw new Error(`IPFS node ${name} is configured more than once!`)
+      }
+
+      nodes.set(name, await IpfsProvider.bootstrap(jobsManager, clientOptions))
+    }
+
+    return new this(jobsManager, nodes)
+  }
+
+  private getNode (name: string): IpfsNode {
+    return { name, provider: this.nodes.get(name) as IpfsProvider }
+  }
+
+  /**
+   * Returns free capacity of each node in megabytes, based on the size and maximal size of the node's repo.
+   */
+  public async getFreeCapacities (): Promise<Map<string, BigNumber>> {
+    const capacities = new Map<string, BigNumber>()
+
+    for (const [name, provider] of this.nodes) {
+      const { repoSize, storageMax } = await provider.client.repo.stat()
+      capacities.set(name, bytesToMegabytes(new BigNumber(storageMax).minus(repoSize)))
+    }
+
+    return capacities
+  }
+
+  private async getMostFreeNode (exclude: string[] = []): Promise<string> {
+    const capacities = await this.getFreeCapacities()
+
+    return Array.from(capacities.entries())
+      .filter(([name]) => !exclude.includes(name))
+      .sort(([, a], [, b]) => b.comparedTo(a))[0][0]
+  }
+
+  /**
+   * Finds the node for the Agreement. Already assigned node is kept, otherwise the node of other Agreement
+   * with the same hash (active or retained) is used and if there is none, the node with the most free capacity is chosen.
+   * The chosen node is persisted with the Agreement.
+   *
+   * @param hash
+   * @param agreementReference
+   */
+  private async assignNode (hash: string, agreementReference: string): Promise<IpfsNode> {
+    const agreement = await Agreement.findByPk(agreementReference)
+
+    if (agreement?.ipfsNode && this.nodes.has(agreement.ipfsNode)) {
+      return this.getNode(agreement.ipfsNode)
+    }
+
+    const sibling = await Agreement.findOne({
+      where: {
+        dataReference: hash,
+        [Op.or]: [{ isActive: true }, { retainedUntil: { [Op.ne]: null } }],
+        ipfsNode: { [Op.in]: Array.from(this.nodes.keys()) }
+      }
+    })
+    const name = sibling?.ipfsNode ?? await this.getMostFreeNode()
+
+    if (agreement) {
+      agreement.ipfsNode = name
+      await agreement.save()
+    }
+
+    logger.info(`Agreement ${agreementReference} is assigned to IPFS node ${name}`)
+    return this.getNode(name)
+  }
+
+  /**
+   * Returns nodes that the hash is assigned to. When there is no record of the hash
+   * (eq. it was pinned before the sharding was enabled) all the nodes are returned.
+   *
+   * @param hash
+   */
+  private async findNodes (hash: string): Promise<IpfsNode[]> {
+    const agreements = await Agreement.findAll({
+      where: { dataReference: hash, ipfsNode: { [Op.in]: Array.from(this.nodes.keys()) } }
+    })
+    const names = new Set(agreements.map(agreement => agreement.ipfsNode as string))
+
+    return Array.from(names.size > 0 ? names : this.nodes.keys()).map(name => this.getNode(name))
+  }
+
+  /**
+   * Returns client of the node assigned to the Agreement, used for pinning targets of IPNS names.
+   *
+   * @param hash
+   * @param agreementReference
+   */
+  async getClientFor (hash: string, agreementReference: string): Promise<IpfsClient> {
+    const node = await this.assignNode(hash, agreementReference)
+    return node.provider.client
+  }
+
+  /**
+   * Queues pinning of the hash on the node assigned to the Agreement.
+   *
+   * @param hash
+   * @param expectedSize
+   * @param agreementReference
+   * @param options
+   */
+  async pin (hash: string, expectedSize: BigNumber, agreementReference: string, options?: PinOptions): Promise<void> {
+    const node = await this.assignNode(hash, agreementReference)
+    await node.provider.pin(hash, expectedSize, agreementReference, options)
+  }
+
+  private async resumeJob (entity: JobModel): Promise<void> {
+    const agreement = await Agreement.findByPk(entity.agreementReference)
+
+    if (!agreement || !agreement.isActive || !agreement.hasSufficientFunds) {
+      logger.info(`Not resuming ${entity.type} of ${entity.name} as Agreement ${entity.agreementReference} is not active`)
+      return
+    }
+
+    const node = await this.assignNode(entity.name, agreement.agreementReference)
+    const job = entity.type === REBALANCE_JOB_TYPE
+      ? new RebalanceJob(node, this.getNode(await this.getMostFreeNode([node.name])), entity.name, agreement.size, agreement.agreementReference)
+      : new PinJob(node.provider.client, entity.name, agreement.size, agreement.agreementReference)
+    job.retries = this.jobsManager.remainingRetries(entity)
+    logger.info(`Resuming ${entity.type} of ${entity.name} with ${job.retries} tries left`)
+    await this.jobsManager.enqueue(job, entity.priority)
+  }
+
+  /**
+   * Queues again the PinJobs and RebalanceJobs that were left unfinished by previous run of the service
+   * and rebalances the Agreements if some node was added since then.
+   */
+  async resume (): Promise<void> {
+    const staleJobs = [
+      ...await this.jobsManager.interruptStaleJobs(PIN_JOB_TYPE),
+      ...await this.jobsManager.interruptStaleJobs(REBALANCE_JOB_TYPE)
+    ]
+
+    for (const entity of staleJobs) {
+      await this.resumeJob(entity)
+    }
+
+    await this.rebalance()
+  }
+
+  /**
+   * Moves Agreements to the nodes that were added since the last run of the service.
+   * Starting with the largest, the Agreement is moved only if after the move the added node
+   * still has at least as much free capacity as the node the Agreement is moved from.
+   *
+   * The nodes are recorded as known only once there is nothing left to move, so the moves
+   * that did not succeed are planned again on the next run.
+   */
+  async rebalance (): Promise<void> {
+    const names = Array.from(this.nodes.keys())
+    const knownNodes = getObject().ipfsNodes as string[] | undefined
+    const addedNodes = names.filter(name => knownNodes && !knownNodes.includes(name))
+
+    if (addedNodes.length === 0) {
+      getObject().ipfsNodes = names
+      return
+    }
+
+    const capacities = await this.getFreeCapacities()
+    const agreements = await Agreement.findAll({
+      where: {
+        isActive: true,
+        dataReference: { [Op.startsWith]: '/ipfs/' },
+        ipfsNode: { [Op.in]: names.filter(name => !addedNodes.includes(name)) }
+      }
+    })
+    const hashes = new Map<string, Agreement>()
+
+    for (const agreement of agreements.sort((a, b) => b.size.comparedTo(a.size))) {
+      if (!hashes.has(agreement.dataReference)) {
+        hashes.set(agreement.dataReference, agreement)
+      }
+    }
+
+    let moved = 0
+    for (const [hash, agreement] of hashes) {
+      const source = agreement.ipfsNode as string
+      const target = addedNodes.sort((a, b) => (capacities.get(b) as BigNumber).comparedTo(capacities.get(a) as BigNumber))[0]
+      const targetCapacity = (capacities.get(target) as BigNumber).minus(agreement.size)
+      const sourceCapacity = (capacities.get(source) as BigNumber).plus(agreement.size)
+
+      if (targetCapacity.gte(sourceCapacity)) {
+        capacities.set(target, targetCapacity)
+        capacities.set(source, sourceCapacity)
+        await this.jobsManager.enqueue(
+          new RebalanceJob(this.getNode(source), this.getNode(target), hash, agreement.size, agreement.agreementReference),
+          JobPriority.LOW
+        )
+        moved++
+      }
+    }
+
+    if (moved === 0) {
+      logger.info(`Added IPFS node(s) ${addedNodes.join(', ')} are balanced`)
+      getObject().ipfsNodes = names
+      return
+    }
+
+    logger.info(`Added IPFS node(s) ${addedNodes.join(', ')}, moving ${moved} hash(es) to them`)
+  }
+
+  cancel (agreementReference: string): Promise<void> {
+    return this.jobsManager.cancel(agreementReference, [PIN_JOB_TYPE, REBALANCE_JOB_TYPE])
+  }
+
+  async isPinned (hash: string): Promise<boolean> {
+    for (const node of await this.findNodes(hash)) {
+      if (await node.provider.isPinned(hash)) {
+        return true
+      }
+    }
+
+    return false
+  }
+
+  async unpin (hash: string): Promise<void> {
+    let unpinned = false
+
+    for (const node of await this.findNodes(hash)) {
+      logger.info(`Unpinning hash ${hash} from IPFS node ${node.name}`)
+      unpinned = await unpinFromNode(node, hash) || unpinned
+    }
+
+    if (!unpinned) {
+      throw new NotPinnedError(`${hash} is not pinned on any of the IPFS nodes`)
+    }
+  }
+}
@@ -7,23 +7,33 @@ import config from 'config'
 import BigNumber from 'bignumber.js'
 import fetch, { RequestInit } from 'node-fetch'
 import parse from 'parse-duration'
+import AbortController, { AbortSignal } from 'abort-controller'
 
-import type { Provider } from '../definitions'
+import { PinOptions, PinProgress, Provider, ProviderCapability } from '../definitions'
 import { loggingFactory } from '../logger'
-import { Job, JobsManager } from '../jobs-manager'
-import { HashExceedsSizeError, NotPinnedError } from '../errors'
-import { bytesToMegabytes } from '../utils'
+import { Job, JobsManager, PROGRESS_EVENT_NAME } from '../jobs-manager'
+import { HashExceedsSizeError, HashNotFoundError, InvalidCidError, IpfsUnreachableError, NotPinnedError, PinTimeoutError } from '../errors'
+import { bytesToMegabytes, BytesInMb } from '../utils'
+import { estimateTimeout, getTimeoutBounds } from '../throughput'
 import DirectAddressModel from '../models/direct-address.model'
+import Agreement from '../models/agreement.model'
+import PinReferenceModel from '../models/pin-reference.model'
 
 const logger = loggingFactory('ipfs')
 
 const REQUIRED_IPFS_VERSION = '>=0.7.0'
 const NOT_PINNED_ERROR_MSG = 'not pinned or pinned indirectly'
 
-const MIN_PIN_TIMEOUT = 60000 * 20 // 20 minutes
-const RATE_MB_PER_SECOND = 0.5
+export const PIN_JOB_TYPE = 'ipfs - pin'
 
-type IpfsClient = ReturnType<typeof ipfsClient>
+// Codes of system errors of requests when the IPFS node is not reachable
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'EHOSTUNREACH', 'ENOTFOUND', 'ETIMEDOUT']
+
+function isConnectionError (e: any): boolean {
+  return e.name === 'FetchError' || CONNECTION_ERROR_CODES.includes(e.code)
+}
+
+export type IpfsClient = ReturnType<typeof ipfsClient>
 
 interface Version {
   version: string
@@ -36,6 +46,29 @@ interface DagStat {
   Size: number
 }
 
+/**
+ * Fetches cumulative size (in MB) of the data as declared by its root object.
+ *
+ * @param ipfs
+ * @param cid
+ * @param signal
+ * @throws HashNotFoundError if the root object could not be fetched in time
+ */
+export function getMetaFileSize (ipfs: IpfsClient, cid: CID, signal?: AbortSignal): Promise<BigNumber> {
+  return ipfs.object.stat(
+    cid,
+    { timeout: config.get<number | string>('ipfs.sizeFetchTimeout'), signal }
+  )
+    .then(({ CumulativeSize }) => bytesToMegabytes(CumulativeSize))
+    .catch(e => {
+      if (e.name === 'TimeoutError') {
+        logger.error(`Fetching size of ${cid.toString()} timed out!`)
+        throw new HashNotFoundError(`Fetching size of ${cid.toString()} timed out!`)
+      }
+      throw e
+    })
+}
+
 export class PinJob extends Job {
   private readonly hash: string
   private readonly ipfs: IpfsClient
@@ -43,73 +76,201 @@ export class PinJob extends Job {
   private swarmAddresses: multiaddr[] | undefined
 
   constructor (ipfs: IpfsClient, hash: string, expectedSize: BigNumber, agreementReference: string) {
-    super(hash, agreementReference, 'ipfs - pin')
+    super(hash, agreementReference, PIN_JOB_TYPE)
 
     this.expectedSize = expectedSize
     this.ipfs = ipfs
     this.hash = hash
   }
 
-  private async getPeerIdByAgreement (agreementReference: string): Promise<string | undefined> {
-    const directAddress = await DirectAddressModel.findOne({ where: { agreementReference } })
-    await DirectAddressModel.destroy({ where: { agreementReference } })
-    return directAddress?.peerId
+  /**
+   * Returns the peers that the consumer announced for the Agreement in the order of their announcement.
+   * They are kept until the pinning finishes, so every retry can try all of them again.
+   */
+  private getDirectAddresses (): Promise<DirectAddressModel[]> {
+    return DirectAddressModel.findAll({
+      where: { agreementReference: this.agreementReference },
+      order: [['createdAt', 'ASC'], ['id', 'ASC']]
+    })
   }
 
-  private async getPeer (): Promise<{ id: string, addresses: multiaddr[] } | undefined> {
-    const peerId = await this.getPeerIdByAgreement(this.agreementReference)
+  /**
+   * Connects to the peer directly using its announced multiaddrs,
+   * the addresses are looked up in DHT only if the consumer did not announce any.
+   *
+   * @param directAddress
+   */
+  private async connectToPeer ({ peerId, multiaddrs }: DirectAddressModel): Promise<multiaddr[]> {
+    let addresses: multiaddr[]
 
-    if (!peerId) return undefined
-    const peer = await this.ipfs.dht.findPeer(new CID(peerId))
+    if (multiaddrs.length > 0) {
+      addresses = multiaddrs.map(addr => multiaddr(addr))
+    } else {
+      const peer = await this.ipfs.dht.findPeer(new CID(peerId), { signal: this.signal })
 
-    if (!peer) return undefined
-    return {
-      ...peer,
-      addresses: peer.addrs.map(addr => multiaddr(`${addr.toString()}/p2p/${peer.id}`))
+      if (!peer) {
+        throw new Error('peer not found')
+      }
+
+      addresses = peer.addrs.map(addr => multiaddr(`${addr.toString()}/p2p/${peer.id}`))
     }
+
+    await this.ipfs.swarm.connect(addresses, { signal: this.signal })
+
+    return addresses
   }
 
   private async swarmConnect (): Promise<void> {
     logger.debug('In Pinning Job Swarm connect')
+    this.swarmAddresses = []
 
-    this.swarmAddresses = (await this.getPeer())?.addresses
+    const connectedPeers: string[] = []
 
-    if (this.swarmAddresses) {
-      await this.ipfs.swarm.connect(this.swarmAddresses)
+    for (const directAddress of await this.getDirectAddresses()) {
+      try {
+        this.swarmAddresses.push(...await this.connectToPeer(directAddress))
+        connectedPeers.push(directAddress.peerId)
+        logger.info(`(${this.hash}) Connected to consumer's peer ${directAddress.peerId}`)
+      } catch (e) {
+        logger.warn(`(${this.hash}) Connecting to consumer's peer ${directAddress.peerId} failed: ${e.message}`)
+      }
     }
+
+    this.peer = connectedPeers.length > 0 ? connectedPeers.join(',') : undefined
   }
 
   private async swarmDisconnect (): Promise<void> {
     logger.debug('In Pinning Job Swarm disconnect')
 
-    // Disconnect from peer
-    if (this.swarmAddresses) {
+    // Disconnect from peers
+    if (this.swarmAddresses?.length) {
       await this.ipfs.swarm.disconnect(this.swarmAddresses)
     }
   }
 
-  private async pinProcess (cid: CID, { timeout }: { timeout?: number }): Promise<void> {
+  /**
+   * Fetches the DAG block by block while keeping running total of the fetched size.
+   * The fetching is aborted as soon as the total exceeds the expected size, so a consumer
+   * that lies about the size in the root node's metadata can't make us download arbitrarily large DAG.
+   *
+   * The whole fetching has to finish before the deadline given by the estimated timeout. While the blocks
+   * keep arriving the deadline is pushed forward to the time the remaining data would take at the observed
+   * throughput (at least by the minimal timeout), but never further than the maximal timeout since the start.
+   *
+   * @param cid
+   * @param timeout
+   * @param estimatedSize
+   */
+  private async fetchWithSizeLimit (cid: CID, { timeout, estimatedSize }: { timeout: number, estimatedSize: BigNumber }): Promise<void> {
+    const start = Date.now()
+    const bounds = getTimeoutBounds()
+    const controller = new AbortController()
+    const options = { signal: controller.signal }
+    const abort = (): void => controller.abort()
+    this.signal.addEventListener('abort', abort)
+
+    let deadline = start + timeout
+    let timedOut = false
+    let timer: NodeJS.Timeout
+    const watchDeadline = (): void => {
+      if (Date.now() >= deadline) {
+        timedOut = true
+        controller.abort()
+        return
+      }
+
+      timer = setTimeout(watchDeadline, deadline - Date.now())
+    }
+    timer = setTimeout(watchDeadline, timeout)
+
+    let fetchedBytes = new BigNumber(0)
+    const extendDeadline = (): void => {
+      const elapsed = Date.now() - start
+      const remaining = BigNumber.max(estimatedSize.minus(fetchedBytes), 0)
+      const eta = fetchedBytes.gt(0) ? remaining.times(elapsed).div(fetchedBytes).integerValue().toNumber() : 0
+      deadline = Math.min(start + bounds.max, Math.max(deadline, Date.now() + Math.max(eta, bounds.min)))
+    }
+
+    try {
+      fetchedBytes = new BigNumber((await this.ipfs.block.stat(cid, options)).size)
+      let fetchedBlocks = 1
+      extendDeadline()
+      this.reportProgress(fetchedBlocks, fetchedBytes, estimatedSize, start)
+
+      for await (const { ref, err } of this.ipfs.refs(cid, { recursive: true, unique: true, ...options })) {
+        if (err) {
+          throw new Error(`Fetching ${cid.toString()} failed: ${err}`)
+        }
+
+        const { size } = await this.ipfs.block.stat(new CID(ref), options)
+        fetchedBytes = fetchedBytes.plus(size)
+        fetchedBlocks++
+        extendDeadline()
+        this.reportProgress(fetchedBlocks, fetchedBytes, estimatedSize, start)
+
+        const fetchedMb = bytesToMegabytes(fetchedBytes)
+
+        if (fetchedMb.gt(this.expectedSize)) {
+          logger.error(`The hash ${cid.toString()} has fetched already ${fetchedMb.toString()} megabytes while it was expected to have ${this.expectedSize} megabytes. Aborting.`)
+          throw new HashExceedsSizeError('The hash exceeds payed size!', fetchedMb, this.expectedSize)
+        }
+      }
+    } catch (e) {
+      if (timedOut) {
+        throw new PinTimeoutError(`Fetching of ${cid.toString()} timed out after ${Date.now() - start}ms`, timeout)
+      }
+
+      throw e
+    } finally {
+      // Terminates the ongoing requests in case the fetching was not finished
+      clearTimeout(timer)
+      this.signal.removeEventListener('abort', abort)
+      controller.abort()
+    }
+  }
+
+  /**
+   * Emits progress of the fetching compared to the size estimated from the root node's metadata.
+   *
+   * @param blocks number of fetched blocks
+   * @param bytes number of fetched bytes
+   * @param estimatedSize in bytes
+   * @param start timestamp when the fetching started
+   */
+  private reportProgress (blocks: number, bytes: BigNumber, estimatedSize: BigNumber, start: number): void {
+    const elapsed = (Date.now() - start) / 1000
+    const remaining = BigNumber.max(estimatedSize.minus(bytes), 0)
+    const progress: PinProgress = {
+      blocks,
+      bytes: bytes.toNumber(),
+      totalBytes: estimatedSize.toNumber(),
+      percentage: estimatedSize.gt(0) ? Math.min(100, bytes.div(estimatedSize).times(100).decimalPlaces(2).toNumber()) : 100,
+      eta: bytes.gt(0) ? remaining.times(elapsed).div(bytes).integerValue().toNumber() : null
+    }
+
+    this.emit(PROGRESS_EVENT_NAME, progress)
+  }
+
+  private async pinProcess (cid: CID, { timeout, estimatedSize }: { timeout: number, estimatedSize: BigNumber }): Promise<void> {
     const hash = this.hash.replace('/ipfs/', '')
     await this.swarmConnect().catch(logger.warn)
 
-    logger.info(`Pinning hash: ${hash} start`)
-    await this.ipfs.pin.add(cid, { timeout })
-    await this.swarmDisconnect().catch(logger.warn)
-  }
+    try {
+      logger.verbose(`(${hash}) Fetching the data`)
+      await this.fetchWithSizeLimit(cid, { timeout, estimatedSize })
 
-  private getMetaFileSize (cid: CID): Promise<BigNumber> {
-    return this.ipfs.object.stat(
-      cid,
-      { timeout: config.get<number | string>('ipfs.sizeFetchTimeout') }
-    )
-      .then(({ CumulativeSize }) => bytesToMegabytes(CumulativeSize))
-      .catch(e => {
-        if (e.name === 'TimeoutError') {
-          logger.error(`Fetching size of ${cid.toString()} timed out!`)
-          throw new Error(`Fetching size of ${cid.toString()} timed out!`)
-        }
-        throw e
-      })
+      // All the blocks are already present locally so this does not transfer anything
+      logger.info(`Pinning hash: ${hash} start`)
+      await this.ipfs.pin.add(cid, { timeout, signal: this.signal })
+    } catch (e) {
+      if (e.name === 'TimeoutError') {
+        throw new PinTimeoutError(`Pinning of ${hash} timed out after ${timeout}ms`, timeout)
+      }
+
+      throw e
+    } finally {
+      await this.swarmDisconnect().catch(logger.warn)
+    }
   }
 
   private getActualFileSize (cid: CID): Promise<BigNumber> {
@@ -118,26 +279,69 @@ export class PinJob extends Job {
     // @ts-ignore: TODO: Remove that when ipfs-js fully support this API
     return this.ipfs.dag.stat!(
       cid,
-      { timeout: typeof timeout === 'number' ? timeout : parse(timeout) as number })
+      { timeout: typeof timeout === 'number' ? timeout : parse(timeout) as number, signal: this.signal })
       .then((res: DagStat) => {
         return bytesToMegabytes(res.Size)
       })
       .catch((e: Error) => {
         if (e.name === 'TimeoutError') {
           logger.error(`Fetching size of ${cid.toString()} timed out!`)
-          throw new Error(`Fetching size of ${cid.toString()} timed out!`)
+          throw new HashNotFoundError(`Fetching size of ${cid.toString()} timed out!`)
         }
         throw e
       })
   }
 
+  /**
+   * Unpins the data that exceeded the size limit of the Agreement unless
+   * some other Agreement references the same data.
+   */
+  private async removeOversizedPin (cid: CID): Promise<void> {
+    await PinReferenceModel.destroy({ where: { dataReference: this.hash, agreementReference: this.agreementReference } })
+    const otherReferences = await PinReferenceModel.count({ where: { dataReference: this.hash } })
+
+    if (otherReferences > 0) {
+      logger.info(`Not unpinning file ${cid.toString()} as it is referenced by other Agreement(s)`)
+      return
+    }
+
+    logger.info(`Unpin file ${cid.toString()} due to exceed size limit`)
+    await this.ipfs.pin.rm(cid)
+  }
+
+  private parseCid (): CID {
+    const hash = this.hash.replace('/ipfs/', '')
+
+    try {
+      return new CID(hash)
+    } catch (e) {
+      throw new InvalidCidError(`${hash} is not valid CID: ${e.message}`)
+    }
+  }
+
+  /**
+   * Pins the hash while the errors of the IPFS node's API are classified,
+   * so the consumer is notified with specific message and the Job is retried accordingly.
+   */
   async _run (): Promise<void> {
+    try {
+      await this.pin()
+    } catch (e) {
+      if (isConnectionError(e)) {
+        throw new IpfsUnreachableError(`IPFS node is not reachable: ${e.message}`)
+      }
+
+      throw e
+    }
+  }
+
+  private async pin (): Promise<void> {
     const hash = this.hash.replace('/ipfs/', '')
-    const cid = new CID(hash)
+    const cid = this.parseCid()
 
     // METADATA SIZE CHECK
     logger.verbose(`(${hash}) Retrieving meta size of CID`)
-    const metadataSizeMb = await this.getMetaFileSize(cid) // In MB
+    const metadataSizeMb = await getMetaFileSize(this.ipfs, cid, this.signal) // In MB
 
     if (metadataSizeMb.gt(this.expectedSize)) {
       logger.error(`The hash ${hash} has cumulative size of ${metadataSizeMb.toString()} megabytes while it was expected to have ${this.expectedSize} megabytes.`)
@@ -145,12 +349,12 @@ export class PinJob extends Job {
     }
 
     // PIN PROCESS
-    // We can be generous on the actual pinning timeout as if the CID would not be present
-    // in IPFS network, then the previous ipfs.object.stat() call would timeout already then.
-    // We are using 0.5 MB per second transfer rate, with keeping at least 20 minutes as default.
-    // SizeInMB * 0.5 * 1000 ==> ms
-    const estimatedTimeout = Math.max(MIN_PIN_TIMEOUT, metadataSizeMb.div(RATE_MB_PER_SECOND).multipliedBy(1000).toNumber())
-    await this.pinProcess(cid, { timeout: estimatedTimeout })
+    // The timeout is estimated from the throughput measured on previously finished pinning Jobs,
+    // see `ipfs.pinTimeout` config for the details.
+    const estimatedSize = metadataSizeMb.times(BytesInMb)
+    const estimatedTimeout = await estimateTimeout(PIN_JOB_TYPE, estimatedSize)
+    logger.verbose(`(${hash}) Pinning with timeout ${estimatedTimeout}ms`)
+    await this.pinProcess(cid, { timeout: estimatedTimeout, estimatedSize })
 
     // ACTUAL SIZE CHECK
     logger.verbose(`(${hash}) Retrieving actual size of CID`)
@@ -158,12 +362,17 @@ export class PinJob extends Job {
 
     if (sizeInMb.gt(this.expectedSize)) {
       logger.error(`The hash ${hash} has cumulative size of ${sizeInMb.toString()} megabytes while it was expected to have ${this.expectedSize} megabytes.`)
-      // Unpin file
-      logger.info(`Unpin file ${hash} due to exceed size limit`)
-      await this.ipfs.pin.rm(cid)
+      await this.removeOversizedPin(cid)
       throw new HashExceedsSizeError('The hash exceeds payed size!', sizeInMb, this.expectedSize)
     }
   }
+
+  /**
+   * The announced addresses are kept for all the attempts and removed once the pinning ends.
+   */
+  async finalize (): Promise<void> {
+    await DirectAddressModel.destroy({ where: { agreementReference: this.agreementReference } })
+  }
 }
 
 export function getDagStat (nodeUrl: string): (cid: CID, options?: any) => Promise<DagStat> {
@@ -178,6 +387,8 @@ export function getDagStat (nodeUrl: string): (cid: CID, options?: any) => Promi
 }
 
 export class IpfsProvider implements Provider {
+  public readonly prefixes = ['/ipfs/']
+  public readonly capabilities = [ProviderCapability.RESUME, ProviderCapability.CANCEL, ProviderCapability.PIN_STATUS]
   private readonly ipfs: IpfsClient
   private jobsManager: JobsManager
 
@@ -216,15 +427,75 @@ export class IpfsProvider implements Provider {
     return new this(jobsManager, ipfs)
   }
 
+  get client (): IpfsClient {
+    return this.ipfs
+  }
+
+  /**
+   * Returns client of the node, used for pinning targets of IPNS names.
+   */
+  getClientFor (): Promise<IpfsClient> {
+    return Promise.resolve(this.ipfs)
+  }
+
   /**
+   * Queues pinning of the hash. Resolves once the PinJob is persisted,
+   * the pinning itself is processed in the background by JobsManager.
    *
    * @param hash
    * @param expectedSize
    * @param agreementReference
+   * @param options
    */
-  pin (hash: string, expectedSize: BigNumber, agreementReference: string): Promise<void> {
+  pin (hash: string, expectedSize: BigNumber, agreementReference: string, options?: PinOptions): Promise<void> {
     const job = new PinJob(this.ipfs, hash, expectedSize, agreementReference)
-    return this.jobsManager.run(job)
+    return this.jobsManager.enqueue(job, options?.priority)
+  }
+
+  /**
+   * Queues again pinning of Agreements whose PinJobs were left unfinished by previous run of the service.
+   * The resumed PinJob gets only the retries that were not consumed by the previous attempts.
+   */
+  async resume (): Promise<void> {
+    const staleJobs = await this.jobsManager.interruptStaleJobs(PIN_JOB_TYPE)
+
+    for (const entity of staleJobs) {
+      const agreement = await Agreement.findByPk(entity.agreementReference)
+
+      if (!agreement || !agreement.isActive || !agreement.hasSufficientFunds) {
+        logger.info(`Not resuming pinning of ${entity.name} as Agreement ${entity.agreementReference} is not active`)
+        continue
+      }
+
+      const job = new PinJob(this.ipfs, entity.name, agreement.size, agreement.agreementReference)
+      job.retries = this.jobsManager.remainingRetries(entity)
+      logger.info(`Resuming pinning of ${entity.name} with ${job.retries} tries left`)
+      await this.jobsManager.enqueue(job, entity.priority)
+    }
+  }
+
+  async isPinned (hash: string): Promise<boolean> {
+    const cid = new CID(hash.replace('/ipfs/', ''))
+
+    try {
+      for await (const pin of this.ipfs.pin.ls({ paths: cid, type: 'recursive' })) {
+        if (pin.cid.equals(cid)) {
+          return true
+        }
+      }
+    } catch (e) {
+      if (e.message.includes('is not pinned')) {
+        return false
+      }
+
+      throw e
+    }
+
+    return false
+  }
+
+  cancel (agreementReference: string): Promise<void> {
+    return this.jobsManager.cancel(agreementReference, [PIN_JOB_TYPE])
   }
 
   async unpin (hash: string): Promise<void> {
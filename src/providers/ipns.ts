@@ -0,0 +1,253 @@
+import config from 'config'
+import BigNumber from 'bignumber.js'
+import parse from 'parse-duration'
+import { Op } from 'sequelize'
+
+import { JobPriority, PinOptions, Provider, ProviderCapability } from '../definitions'
+import { loggingFactory } from '../logger'
+import { Job, JobsManager, PROGRESS_EVENT_NAME } from '../jobs-manager'
+import { HashExceedsSizeError, JobsError, NotPinnedError } from '../errors'
+import { IpfsClient, IpfsProvider, PinJob } from './ipfs'
+import Agreement from '../models/agreement.model'
+import IpnsResolutionModel from '../models/ipns-resolution.model'
+import PinReferenceModel from '../models/pin-reference.model'
+
+const logger = loggingFactory('ipns')
+
+const RESOLVE_JOB_TYPE = 'ipns - resolve'
+
+/**
+ * Provider of the `/ipfs/` hashes that the targets of the names are pinned with.
+ */
+export interface TargetProvider {
+  getClientFor (hash: string, agreementReference: string): Promise<IpfsClient>
+  isPinned (hash: string): Promise<boolean>
+  unpin (hash: string): Promise<void>
+}
+
+/**
+ * Returns true if the target is pinned for some Agreement, either directly or through IPNS name.
+ *
+ * @param target
+ */
+async function isTargetReferenced (target: string): Promise<boolean> {
+  const directReferences = await PinReferenceModel.count({ where: { dataReference: target } })
+  const ipnsReferences = await IpnsResolutionModel.count({ where: { target, isPinned: true } })
+
+  return directReferences + ipnsReferences > 0
+}
+
+async function unpinTarget (targets: TargetProvider, target: string): Promise<void> {
+  if (await isTargetReferenced(target)) {
+    logger.info(`Not unpinning ${target} as it is still referenced by other Agreement(s)`)
+    return
+  }
+
+  try {
+    await targets.unpin(target)
+  } catch (e) {
+    if (e.code !== NotPinnedError.code) {
+      throw e
+    }
+  }
+}
+
+/**
+ * Strips the path inside of the DAG from the resolved target, eq. `/ipfs/<cid>/some/file` => `/ipfs/<cid>`,
+ * so the whole DAG is pinned.
+ *
+ * @param target
+ */
+function stripPath (target: string): string {
+  const [, namespace, cid] = target.split('/')
+
+  return `/${namespace}/${cid}`
+}
+
+/**
+ * Job that resolves IPNS name and pins its current target.
+ * When the name points to a new target, the target is pinned and the previously pinned target is unpinned.
+ */
+export class IpnsResolveJob extends Job {
+  public readonly notifiesConsumer: boolean
+  private readonly ipfs: IpfsProvider
+  private readonly targets: TargetProvider
+  private readonly expectedSize: BigNumber
+  private pinJob?: PinJob
+
+  constructor (ipfs: IpfsProvider, targets: TargetProvider, name: string, expectedSize: BigNumber, agreementReference: string, notifiesConsumer = true) {
+    super(name, agreementReference, RESOLVE_JOB_TYPE)
+
+    this.ipfs = ipfs
+    this.targets = targets
+    this.expectedSize = expectedSize
+    this.notifiesConsumer = notifiesConsumer
+  }
+
+  private async resolve (): Promise<string> {
+    const timeout = parse(config.get<string>('ipns.resolveTimeout')) ?? undefined
+    let target: string | undefined
+
+    for await (const path of this.ipfs.client.name.resolve(this.name, { recursive: true, timeout, signal: this.signal })) {
+      target = path
+    }
+
+    if (!target) {
+      throw new JobsError(`IPNS name ${this.name} could not be resolved`)
+    }
+
+    return stripPath(target)
+  }
+
+  private async pinTarget (target: string): Promise<void> {
+    const client = await this.targets.getClientFor(target, this.agreementReference)
+    const pinJob = new PinJob(client, target, this.expectedSize, this.agreementReference)
+    this.pinJob = pinJob
+    const abort = (): void => pinJob.abort()
+    this.signal.addEventListener('abort', abort)
+    pinJob.on(PROGRESS_EVENT_NAME, progress => this.emit(PROGRESS_EVENT_NAME, progress))
+
+    try {
+      await pinJob._run()
+    } finally {
+      this.signal.removeEventListener('abort', abort)
+    }
+  }
+
+  async finalize (): Promise<void> {
+    await this.pinJob?.finalize()
+  }
+
+  async _run (): Promise<void> {
+    const target = await this.resolve()
+    const lastResolution = await IpnsResolutionModel.findOne({
+      where: { agreementReference: this.agreementReference },
+      order: [['id', 'DESC']]
+    })
+
+    if (lastResolution?.target === target) {
+      // Oversized target is not fetched again, the pinned one is verified as it could have been removed from the node
+      if (!lastResolution.isPinned || await this.targets.isPinned(target)) {
+        logger.verbose(`IPNS name ${this.name} still resolves to ${target}`)
+        return
+      }
+
+      logger.warn(`Target ${target} of IPNS name ${this.name} is not pinned anymore, pinning it again`)
+      await this.pinTarget(target)
+      return
+    }
+
+    const previousPinned = await IpnsResolutionModel.findOne({
+      where: { agreementReference: this.agreementReference, isPinned: true },
+      order: [['id', 'DESC']]
+    })
+
+    logger.info(`IPNS name ${this.name} resolved to ${target}, pinning it`)
+    try {
+      await this.pinTarget(target)
+    } catch (e) {
+      // Oversized target is recorded so it is not fetched again on every refresh
+      if (HashExceedsSizeError.is(e)) {
+        await IpnsResolutionModel.create({ agreementReference: this.agreementReference, name: this.name, target, isPinned: false, resolvedAt: new Date() })
+      }
+
+      throw e
+    }
+
+    await IpnsResolutionModel.create({ agreementReference: this.agreementReference, name: this.name, target, isPinned: true, resolvedAt: new Date() })
+
+    if (previousPinned) {
+      logger.info(`Unpinning superseded target ${previousPinned.target} of IPNS name ${this.name}`)
+      previousPinned.isPinned = false
+      await previousPinned.save()
+      await unpinTarget(this.targets, previousPinned.target)
+    }
+  }
+}
+
+/**
+ * Provider for mutable IPNS names. The name is resolved by the IPFS node and its target is pinned
+ * using the provider of `/ipfs/` hashes (eq. sharded across multiple IPFS nodes).
+ * The names are periodically resolved again so the pinned data follows the name.
+ */
+export class IpnsProvider implements Provider {
+  public readonly prefixes = ['/ipns/']
+  public readonly capabilities = [ProviderCapability.RESUME, ProviderCapability.CANCEL, ProviderCapability.PIN_STATUS, ProviderCapability.REFRESH]
+  private readonly ipfs: IpfsProvider
+  private readonly targets: TargetProvider
+  private readonly jobsManager: JobsManager
+
+  constructor (jobsManager: JobsManager, ipfs: IpfsProvider, targets: TargetProvider = ipfs) {
+    this.jobsManager = jobsManager
+    this.ipfs = ipfs
+    this.targets = targets
+  }
+
+  /**
+   * Queues resolving of the name and pinning of its target.
+   *
+   * @param hash
+   * @param expectedSize
+   * @param agreementReference
+   * @param options
+   */
+  pin (hash: string, expectedSize: BigNumber, agreementReference: string, options?: PinOptions): Promise<void> {
+    const job = new IpnsResolveJob(this.ipfs, this.targets, hash, expectedSize, agreementReference)
+    return this.jobsManager.enqueue(job, options?.priority)
+  }
+
+  /**
+   * Queues resolving of names of all active Agreements.
+   * The consumers are not notified about these periodic Jobs.
+   */
+  async refresh (): Promise<void> {
+    const agreements = await Agreement.findAll({ where: { isActive: true, dataReference: { [Op.startsWith]: '/ipns/' } } })
+
+    for (const agreement of agreements.filter(agreement => agreement.hasSufficientFunds)) {
+      const job = new IpnsResolveJob(this.ipfs, this.targets, agreement.dataReference, agreement.size, agreement.agreementReference, false)
+      await this.jobsManager.enqueue(job, JobPriority.LOW)
+    }
+  }
+
+  /**
+   * Resolving Jobs that were left unfinished are not resumed one by one,
+   * all the names are simply resolved again.
+   */
+  async resume (): Promise<void> {
+    await this.jobsManager.interruptStaleJobs(RESOLVE_JOB_TYPE)
+    await this.refresh()
+  }
+
+  cancel (agreementReference: string): Promise<void> {
+    return this.jobsManager.cancel(agreementReference, [RESOLVE_JOB_TYPE])
+  }
+
+  async isPinned (hash: string): Promise<boolean> {
+    const resolution = await IpnsResolutionModel.findOne({ where: { name: hash, isPinned: true }, order: [['id', 'DESC']] })
+
+    if (!resolution) {
+      return false
+    }
+
+    return this.targets.isPinned(resolution.target)
+  }
+
+  /**
+   * Unpins all the targets that are pinned for the name.
+   *
+   * @param hash
+   */
+  async unpin (hash: string): Promise<void> {
+    logger.info(`Unpinning IPNS name: ${hash}`)
+    const resolutions = await IpnsResolutionModel.findAll({ where: { name: hash, isPinned: true } })
+
+    for (const resolution of resolutions) {
+      resolution.isPinned = false
+      await resolution.save()
+    }
+
+    for (const target of new Set(resolutions.map(resolution => resolution.target))) {
+      await unpinTarget(this.targets, target)
+    }
+  }
+}
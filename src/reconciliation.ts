@@ -0,0 +1,145 @@
+import config from 'config'
+import CID from 'cids'
+import BigNumber from 'bignumber.js'
+import { Op, WhereAttributeHash } from 'sequelize'
+
+import { loggingFactory } from './logger'
+import { bytesToMegabytes } from './utils'
+import { JobState } from './definitions'
+import { IpfsClient, PIN_JOB_TYPE } from './providers/ipfs'
+import { REBALANCE_JOB_TYPE } from './providers/ipfs-sharded'
+import Agreement from './models/agreement.model'
+import IpnsResolutionModel from './models/ipns-resolution.model'
+import JobModel from './models/job.model'
+
+const logger = loggingFactory('reconciliation')
+
+export interface OrphanedPin {
+  cid: CID
+
+  // Size in MB, null when it could not be fetched
+  size: BigNumber | null
+}
+
+/**
+ * Normalizes the hash (with or without /ipfs/ prefix) to the string form of CIDv1,
+ * so the same data referenced by CIDv0 and CIDv1 are matched.
+ * Returns undefined for references that are not IPFS hashes.
+ *
+ * @param hash
+ */
+function normalizeCid (hash: string): string | undefined {
+  const [cid] = hash.replace(/^\/ipfs\//, '').split('/')
+
+  try {
+    return new CID(cid).toV1().toString()
+  } catch (e) {
+    return undefined
+  }
+}
+
+/**
+ * Returns normalized CIDs that are expected to be pinned: data of active Agreements,
+ * data of expired Agreements that are retained, pinned targets of their IPNS names,
+ * data of pinning Jobs that are in flight and the CIDs from the operator's allow-list.
+ *
+ * When ipfsNodes are given, only Agreements assigned to those IPFS nodes are considered,
+ * null standing for the default node that keeps Agreements not assigned to any node.
+ * The in-flight Jobs are expected on every node, as the target of a rebalancing Job
+ * pins the data before the Agreement is reassigned to it.
+ *
+ * @param ipfsNodes
+ */
+export async function getExpectedCids (ipfsNodes?: Array<string | null>): Promise<Set<string>> {
+  const where: WhereAttributeHash = { [Op.or]: [{ isActive: true }, { retainedUntil: { [Op.ne]: null } }] }
+
+  if (ipfsNodes !== undefined) {
+    where.ipfsNode = { [Op.or]: ipfsNodes }
+  }
+
+  const agreements = await Agreement.findAll({ where })
+  const resolutions = await IpnsResolutionModel.findAll({
+    where: { isPinned: true, agreementReference: { [Op.in]: agreements.map(agreement => agreement.agreementReference) } }
+  })
+  const jobs = await JobModel.findAll({
+    where: {
+      type: { [Op.in]: [PIN_JOB_TYPE, REBALANCE_JOB_TYPE] },
+      state: { [Op.in]: [JobState.CREATED, JobState.RUNNING, JobState.BACKOFF] }
+    }
+  })
+
+  const hashes = [
+    ...agreements.map(agreement => agreement.dataReference),
+    ...resolutions.map(resolution => resolution.target),
+    ...jobs.map(job => job.name),
+    ...config.get<string[]>('reconciliation.allowList')
+  ]
+
+  return new Set(hashes.map(normalizeCid).filter((cid): cid is string => cid !== undefined))
+}
+
+async function getPinSize (ipfs: IpfsClient, cid: CID): Promise<BigNumber | null> {
+  try {
+    const { CumulativeSize } = await ipfs.object.stat(cid, { timeout: config.get<number | string>('ipfs.sizeFetchTimeout') })
+    return bytesToMegabytes(CumulativeSize)
+  } catch (e) {
+    logger.warn(`Fetching size of ${cid.toString()} failed: ${e.message}`)
+    return null
+  }
+}
+
+/**
+ * Lists recursive pins of the IPFS node that do not belong to any Agreement nor are allowed by the operator,
+ * eq. left behind by wiping of the DB after reorg or by cleanup without unpinning.
+ *
+ * @param ipfs
+ * @param ipfsNodes names of the IPFS nodes the Agreements are assigned to, see getExpectedCids()
+ */
+export async function findOrphanedPins (ipfs: IpfsClient, ipfsNodes?: Array<string | null>): Promise<OrphanedPin[]> {
+  const expectedCids = await getExpectedCids(ipfsNodes)
+  const orphans: OrphanedPin[] = []
+
+  for await (const { cid } of ipfs.pin.ls({ type: 'recursive' })) {
+    if (!expectedCids.has(cid.toV1().toString())) {
+      orphans.push({ cid, size: await getPinSize(ipfs, cid) })
+    }
+  }
+
+  logger.info(`Found ${orphans.length} orphaned pin(s)`)
+  return orphans
+}
+
+/**
+ * Unpins the orphaned pins and optionally runs garbage collection of the IPFS repo,
+ * so the space taken by the unpinned data is actually freed.
+ *
+ * Resolves with number of the unpinned pins.
+ *
+ * @param ipfs
+ * @param orphans
+ * @param options
+ */
+export async function removeOrphanedPins (ipfs: IpfsClient, orphans: OrphanedPin[], options?: { gc?: boolean }): Promise<number> {
+  let unpinned = 0
+
+  for (const { cid } of orphans) {
+    try {
+      await ipfs.pin.rm(cid)
+      unpinned++
+    } catch (e) {
+      logger.warn(`Unpinning of orphaned pin ${cid.toString()} failed: ${e.message}`)
+    }
+  }
+
+  if (options?.gc) {
+    logger.info('Running garbage collection of IPFS repo')
+
+    for await (const { err } of ipfs.repo.gc()) {
+      if (err) {
+        logger.warn(`Garbage collection of IPFS repo: ${err.message}`)
+      }
+    }
+  }
+
+  return unpinned
+}
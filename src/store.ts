@@ -14,7 +14,8 @@ export function initStore (sequelize: Sequelize): Promise<void> {
     offerId: 'string',
     peerId: 'string',
     peerPrivKey: 'string',
-    peerPubKey: 'string'
+    peerPubKey: 'string',
+    ipfsNodes: 'json'
   } as Schema
 
   addBlockTrackerDefinitionFor('storage', schema)
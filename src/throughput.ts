@@ -0,0 +1,120 @@
+import config from 'config'
+import BigNumber from 'bignumber.js'
+import parse from 'parse-duration'
+import { Op } from 'sequelize'
+
+import { JobState, PinTimeoutOptions } from './definitions'
+import { BytesInMb } from './utils'
+import JobModel from './models/job.model'
+
+export enum RateSource {
+  MEASURED = 'measured',
+  DEFAULT = 'default',
+  CONFIGURED = 'configured'
+}
+
+export interface ThroughputStats {
+  type: string
+  samples: number
+
+  // Rates in bytes per second, null when there are no samples
+  min: number | null
+  median: number | null
+  percentile: number | null
+  max: number | null
+}
+
+/**
+ * Returns value of the given percentile using nearest-rank method.
+ *
+ * @param sortedValues values sorted in ascending order
+ * @param percentile
+ */
+export function percentileOf (sortedValues: number[], percentile: number): number | null {
+  if (sortedValues.length === 0) {
+    return null
+  }
+
+  const rank = Math.ceil((percentile / 100) * sortedValues.length)
+  return sortedValues[Math.min(Math.max(rank, 1), sortedValues.length) - 1]
+}
+
+function getOptions (): PinTimeoutOptions {
+  return config.get<PinTimeoutOptions>('ipfs.pinTimeout')
+}
+
+/**
+ * Computes statistics of throughput of the most recent finished Jobs of given type.
+ *
+ * @param type
+ */
+export async function getThroughputStats (type: string): Promise<ThroughputStats> {
+  const { window, percentile } = getOptions()
+  const jobs = await JobModel.findAll({
+    attributes: ['throughput'],
+    where: { type, state: JobState.FINISHED, throughput: { [Op.ne]: null } },
+    order: [['finish', 'DESC']],
+    limit: window
+  })
+  const rates = jobs.map(job => job.throughput as number).sort((a, b) => a - b)
+
+  return {
+    type,
+    samples: rates.length,
+    min: percentileOf(rates, 0),
+    median: percentileOf(rates, 50),
+    percentile: percentileOf(rates, percentile ?? 10),
+    max: percentileOf(rates, 100)
+  }
+}
+
+/**
+ * Returns the rate (in bytes per second) that the timeouts are computed from.
+ * The configured rate has precedence, then the measured one if there are enough samples
+ * and the default rate otherwise.
+ *
+ * @param stats
+ */
+export function getEffectiveRate (stats: ThroughputStats): { rate: number, source: RateSource } {
+  const { rate, minSamples, defaultRate } = getOptions()
+
+  if (rate) {
+    return { rate: rate * BytesInMb, source: RateSource.CONFIGURED }
+  }
+
+  if (stats.percentile && stats.samples >= (minSamples ?? 0)) {
+    return { rate: stats.percentile, source: RateSource.MEASURED }
+  }
+
+  return { rate: (defaultRate ?? 0.5) * BytesInMb, source: RateSource.DEFAULT }
+}
+
+/**
+ * Returns the configured minimal and maximal timeouts (in ms) of transferring data.
+ */
+export function getTimeoutBounds (): { min: number, max: number } {
+  const { minTimeout, maxTimeout } = getOptions()
+  const min = parse(minTimeout ?? '')
+  const max = parse(maxTimeout ?? '')
+
+  if (min === null || max === null) {
+    throw new Error('Invalid ipfs.pinTimeout.minTimeout or ipfs.pinTimeout.maxTimeout value')
+  }
+
+  return { min, max }
+}
+
+/**
+ * Computes timeout (in ms) for transferring data of the given size based on the throughput
+ * of the Jobs of given type, bounded by the configured minimal and maximal timeouts.
+ *
+ * @param type
+ * @param size in bytes
+ */
+export async function estimateTimeout (type: string, size: BigNumber): Promise<number> {
+  const { min, max } = getTimeoutBounds()
+  const { rate } = getEffectiveRate(await getThroughputStats(type))
+  const timeout = size.div(rate).times(1000).integerValue().toNumber()
+
+  return Math.min(max, Math.max(min, timeout))
+}
@@ -11,6 +11,7 @@ import Command, { flags } from '@oclif/command'
 import { OutputFlags } from '@oclif/parser'
 import { getObject } from 'sequelize-store'
 import type { EventEmitter } from 'events'
+import type { AbortSignal } from 'abort-controller'
 
 import type {
   BlockchainEvent,
@@ -26,10 +27,9 @@ import type {
 
 import { sequelizeFactory } from './sequelize'
 import { initStore } from './store'
-import { ProviderManager } from './providers'
+import { createProviderManager, ProviderManager } from './providers'
 import { CliInitDbOptions, JobManagerOptions } from './definitions'
 import { JobsManager } from './jobs-manager'
-import { IpfsProvider } from './providers/ipfs'
 import { Migration } from './migrations'
 import { Sequelize } from 'sequelize'
 import { Web3Events } from '@rsksmart/web3-events'
@@ -119,6 +119,30 @@ export function sleep<T> (ms: number, arg?: T): Promise<T | undefined> {
   return new Promise(resolve => setTimeout(() => resolve(arg), ms))
 }
 
+/**
+ * Sleeps for given time, but resolves earlier when the signal is aborted.
+ *
+ * @param ms
+ * @param signal
+ */
+export function abortableSleep (ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) {
+      return resolve()
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timeout)
+      resolve()
+    }
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal.addEventListener('abort', onAbort)
+  })
+}
+
 /**
  * Prompt for flag if not provided wrapper
  * @param {IOptionFlag<any>} flag Oclif flag object
@@ -210,9 +234,7 @@ export default abstract class BaseCommand extends Command {
     const jobsOptions = config.get<JobManagerOptions>('jobs')
     const jobsManager = new JobsManager(jobsOptions)
 
-    const manager = new ProviderManager()
-    manager.register(await IpfsProvider.bootstrap(jobsManager, duplicateObject(config.get<string>('ipfs.clientOptions'))))
-    return manager
+    return await createProviderManager(jobsManager)
   }
 
   protected baseConfig (flags: OutputFlags<typeof BaseCommand.flags>): void {
@@ -97,10 +97,8 @@ describe('Blockchain Strategy', function () {
 
       // Should not be pinned
       expect(await isPinned(app.ipfsProvider!, file.cid)).to.be.false()
-      expect(errorSpy.calledOnce).to.be.eql(true)
-      const [error] = errorSpy.lastCall.args
-      expect(error).to.be.instanceOf(Error)
-      expect(error.message).to.be.eql('The hash exceeds payed size!')
+      // Pinning runs in background so the error is not propagated to the events processing
+      expect(errorSpy.called).to.be.false()
       expect((await agreementRejectedMsgPromise).payload).to.include({
         expectedSize: Math.floor(file.size).toString(),
         hash: `/ipfs/${file.cidString}`
@@ -10,14 +10,17 @@ import config from 'config'
 import * as comms from '@rsksmart/rif-communications-pubsub'
 
 import { sequelizeFactory } from '../../src/sequelize'
-import { broadcast, start } from '../../src/communication'
-import { AgreementInfoPayload, MessageCodesEnum } from '../../src/definitions'
+import { broadcast, broadcastProgress, forgetProgress, start } from '../../src/communication'
+import { AgreementInfoPayload, CommsMessage, MessageCodesEnum, MultiaddrAnnouncementPayload, PinProgressPayload } from '../../src/definitions'
 import Message from '../../src/models/message.model'
 import { initStore } from '../../src/store'
 import { getObject } from 'sequelize-store'
 import PeerId from 'peer-id'
 import { Substitute, SubstituteOf } from '@fluffy-spoon/substitute'
 import DirectChat from '@rsksmart/rif-communications-pubsub/types/direct'
+import { sleep } from '../../src/utils'
+import { handle, parseAnnouncedMultiaddrs } from '../../src/communication/transport/libp2p/handler'
+import DirectAddressModel from '../../src/models/direct-address.model'
 
 chai.use(sinonChai)
 chai.use(chaiAsPromised)
@@ -119,5 +122,125 @@ describe('Comms', function () {
       messages.forEach(msg => expect(msg.code).to.eql(MessageCodesEnum.I_AGREEMENT_NEW))
       expect(broadcastSpy).to.have.callCount(6)
     })
+
+    it('should throttle progress messages and persist only the latest one', async () => {
+      // @ts-ignore: Config is not typed
+      const originalInterval = config.comms.progressInterval
+      // @ts-ignore: Config is not typed
+      config.comms.progressInterval = '200ms'
+
+      const progress = (bytes: number): PinProgressPayload => ({
+        agreementReference: 'testReference3',
+        hash: '/ipfs/123',
+        blocks: bytes,
+        bytes,
+        totalBytes: 10,
+        percentage: bytes * 10,
+        eta: 10 - bytes
+      })
+
+      try {
+        await broadcastProgress(progress(1))
+        await broadcastProgress(progress(2))
+        await broadcastProgress(progress(3))
+        expect(broadcastSpy).to.be.calledOnce()
+
+        await sleep(250)
+        await broadcastProgress(progress(4))
+        expect(broadcastSpy).to.be.calledTwice()
+
+        messages = await Message.findAll({ where: { agreementReference: 'testReference3' } })
+        expect(messages).to.have.length(1)
+        expect(messages[0].code).to.eql(MessageCodesEnum.I_HASH_PROGRESS)
+        expect(JSON.parse(messages[0].message).payload).to.eql(progress(4))
+      } finally {
+        // @ts-ignore: Config is not typed
+        config.comms.progressInterval = originalInterval
+      }
+    })
+
+    it('should not throttle progress of new pinning after the previous one ended', async () => {
+      const payload: PinProgressPayload = {
+        agreementReference: 'testReference4',
+        hash: '/ipfs/123',
+        blocks: 1,
+        bytes: 1,
+        totalBytes: 10,
+        percentage: 10,
+        eta: 9
+      }
+
+      await broadcastProgress(payload)
+      await broadcast(MessageCodesEnum.I_HASH_PINNED, { agreementReference: 'testReference4', hash: '/ipfs/123' })
+      await broadcastProgress(payload)
+      await broadcast(MessageCodesEnum.E_HASH_NOT_FOUND, { agreementReference: 'testReference4', hash: '/ipfs/123', error: 'not found' })
+      await broadcastProgress(payload)
+
+      expect(broadcastSpy).to.have.callCount(5)
+    })
+
+    it('should drop progress of pinning that ended meanwhile and forget it', async () => {
+      const payload: PinProgressPayload = {
+        agreementReference: 'testReference5',
+        hash: '/ipfs/123',
+        blocks: 1,
+        bytes: 1,
+        totalBytes: 10,
+        percentage: 10,
+        eta: 9
+      }
+
+      await broadcastProgress(payload)
+      forgetProgress('testReference5')
+      await broadcastProgress(payload)
+      expect(broadcastSpy).to.have.callCount(2)
+
+      forgetProgress('testReference5')
+      const staleProgress = broadcastProgress(payload)
+      await broadcast(MessageCodesEnum.I_HASH_PINNED, { agreementReference: 'testReference5', hash: '/ipfs/123' })
+      await staleProgress
+
+      expect(broadcastSpy).to.have.callCount(3)
+      messages = await Message.findAll({ where: { agreementReference: 'testReference5' } })
+      expect(messages.map(msg => msg.code)).to.eql([MessageCodesEnum.I_HASH_PINNED])
+    })
+  })
+
+  describe('Direct messages', () => {
+    const peerId = 'QmV52RowihjoLGa4bAbYfFSMaXB6neuqCPZsZtvZjZ7xL7'
+    const announce = (payload: MultiaddrAnnouncementPayload): Promise<void> => handle({
+      from: peerId,
+      data: { timestamp: Date.now(), version: 1, code: MessageCodesEnum.I_MULTIADDR_ANNOUNCEMENT, payload }
+    } as unknown as comms.DirectMessage<CommsMessage<MultiaddrAnnouncementPayload>>)
+
+    beforeEach(async () => {
+      await DirectAddressModel.destroy({ where: {} })
+    })
+
+    it('should validate announced multiaddrs', () => {
+      expect(parseAnnouncedMultiaddrs(peerId, [
+        '/ip4/127.0.0.1/tcp/4001',
+        `/ip4/127.0.0.1/tcp/4002/p2p/${peerId}`,
+        '/ip4/127.0.0.1/tcp/4003/p2p/QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco',
+        'garbage'
+      ])).to.eql([
+        `/ip4/127.0.0.1/tcp/4001/p2p/${peerId}`,
+        `/ip4/127.0.0.1/tcp/4002/p2p/${peerId}`
+      ])
+      expect(parseAnnouncedMultiaddrs(peerId, 'garbage')).to.eql([])
+    })
+
+    it('should store announced peers with their multiaddrs', async () => {
+      await announce({ agreementReference: 'agreement', peerId })
+      await announce({ agreementReference: 'agreement', peerId, multiaddrs: ['/ip4/127.0.0.1/tcp/4001'] })
+      await announce({ agreementReference: 'agreement', peerId, multiaddrs: ['/ip4/127.0.0.1/tcp/4001', '/dns4/example.com/tcp/4001'] })
+
+      const directAddresses = await DirectAddressModel.findAll()
+      expect(directAddresses).to.have.length(1)
+      expect(directAddresses[0].multiaddrs).to.eql([
+        `/ip4/127.0.0.1/tcp/4001/p2p/${peerId}`,
+        `/dns4/example.com/tcp/4001/p2p/${peerId}`
+      ])
+    })
   })
 })
@@ -1,4 +1,4 @@
-import { Arg, Substitute } from '@fluffy-spoon/substitute'
+import { Arg, Substitute, SubstituteOf } from '@fluffy-spoon/substitute'
 import type { BlockHeader } from 'web3-eth'
 import chai from 'chai'
 import dirtyChai from 'dirty-chai'
@@ -12,12 +12,25 @@ import type Sinon from 'sinon'
 
 import { sequelizeFactory } from '../../src/sequelize'
 import Agreement from '../../src/models/agreement.model'
-import { ProviderManager } from '../../src/providers'
-import { collectDirectAddresses, collectPinsClosure } from '../../src/gc'
-import { MessageCodesEnum } from '../../src/definitions'
+import { ProviderManager, UNPIN_JOB_TYPE } from '../../src/providers'
+import {
+  auditPinsClosure,
+  collectDirectAddresses,
+  collectPinsClosure,
+  getConfirmedExpirationCondition,
+  getPinRetryDelay,
+  retryPinsClosure,
+  retryUnpinsClosure
+} from '../../src/gc'
+import { AgreementStatus, GcConfirmationMode, JobPriority, JobState, MessageCodesEnum, Strategy } from '../../src/definitions'
 import * as channel from '../../src/communication'
 import DirectAddressModel from '../../src/models/direct-address.model'
+import JobModel from '../../src/models/job.model'
+import PinAuditModel from '../../src/models/pin-audit.model'
+import { PIN_JOB_TYPE } from '../../src/providers/ipfs'
+import { mockAgreement } from '../fake-marketplace-service'
 import { sleep } from '../../src/utils'
+import { HashExceedsSizeError } from '../../src/errors'
 
 chai.use(sinonChai)
 chai.use(chaiAsPromised)
@@ -28,6 +41,7 @@ describe('GC', function () {
   let sequelize: Sequelize
   let originalConfirmations: number
   let originalAddress: number
+  let originalStrategy: Strategy
   let channelSpy: Sinon.SinonSpy
 
   before(async (): Promise<void> => {
@@ -37,11 +51,15 @@ describe('GC', function () {
     originalConfirmations = config.blockchain.eventsEmitter.confirmations
     // @ts-ignore: Config is not typed
     originalAddress = config.directAddress
+    // @ts-ignore: Config is not typed
+    originalStrategy = config.strategy
 
     // @ts-ignore: Config is not typed
     config.blockchain.eventsEmitter.confirmations = 5
     // @ts-ignore: Config is not typed
     config.directAddress = { ttl: '1s' } // 1 second
+    // @ts-ignore: Config is not typed
+    config.strategy = Strategy.Blockchain
 
     channelSpy = sinon.stub(channel, 'broadcast')
   })
@@ -51,6 +69,8 @@ describe('GC', function () {
     config.blockchain.eventsEmitter.confirmations = originalConfirmations
     // @ts-ignore: Config is not typed
     config.directAddress.ttl = originalAddress
+    // @ts-ignore: Config is not typed
+    config.strategy = originalStrategy
 
     channelSpy.restore()
   })
@@ -118,6 +138,37 @@ describe('GC', function () {
       expect(channelSpy).not.called()
     })
 
+    it('should load only Agreements whose funds are exhausted', async () => {
+      const agreement = await Agreement.create({
+        agreementReference: '321',
+        dataReference: '321',
+        consumer: '0x123',
+        size: 100,
+        billingPeriod: 10,
+        billingPrice: 10,
+        availableFunds: 1500, // Enough only for one period
+        lastPayout: Date.now() - (11 * 1000)
+      })
+      expect(agreement.fundsExhaustedAt?.getTime()).to.be.lte(Date.now())
+
+      // Pretend that the funds are exhausted only in the future, bypassing the hook that computes it
+      agreement.fundsExhaustedAt = new Date(Date.now() + 1000)
+      await agreement.save({ hooks: false })
+      const findSpy = sinon.spy(Agreement, 'findAll')
+
+      const block = Substitute.for<BlockHeader>()
+      block.number.returns!(10)
+
+      try {
+        await collectPinsClosure()(block)
+      } finally {
+        findSpy.restore()
+      }
+
+      expect((await Agreement.findByPk('321'))?.expiredAtBlockNumber).to.be.null()
+      expect(findSpy.firstCall.args[0]?.where).to.have.property('fundsExhaustedAt')
+    })
+
     it('should unmark Agreement when it received funds', async () => {
       // Already marked agreement
       await Agreement.create({
@@ -190,13 +241,477 @@ describe('GC', function () {
       const manager = Substitute.for<ProviderManager>()
       await collectPinsClosure({ manager })(block)
 
-      manager.received(1).unpin('222')
-      manager.received(1).unpin('111')
+      manager.received(1).cancel('222')
+      manager.received(1).cancel('111')
+      manager.received(1).unpin('222', '222')
+      manager.received(1).unpin('111', '111')
       expect(await Agreement.count({ where: { isActive: true } })).to.eql(1)
       expect(channelSpy).has.callCount(2)
       expect(channelSpy).calledWith(MessageCodesEnum.I_AGREEMENT_EXPIRED, { agreementReference: '111' })
       expect(channelSpy).calledWith(MessageCodesEnum.I_AGREEMENT_EXPIRED, { agreementReference: '222' })
     })
+
+    describe('with retention period', () => {
+      before(() => {
+        // @ts-ignore: Config is not typed
+        config.retention.period = '1h'
+      })
+
+      after(() => {
+        // @ts-ignore: Config is not typed
+        config.retention.period = '0'
+      })
+
+      it('should retain data of expired Agreements', async () => {
+        await Agreement.create(mockAgreement({
+          agreementReference: '111',
+          dataReference: '111',
+          size: 100,
+          billingPeriod: 10,
+          billingPrice: 10,
+          availableFunds: 1500, // Enough only for one period
+          lastPayout: Date.now() - (11 * 1000),
+          expiredAtBlockNumber: 14
+        }))
+
+        const block = Substitute.for<BlockHeader>()
+        block.number.returns!(20)
+
+        const manager = Substitute.for<ProviderManager>()
+        await collectPinsClosure({ manager })(block)
+
+        manager.didNotReceive().cancel(Arg.all())
+        manager.didNotReceive().unpin(Arg.all())
+        expect(channelSpy).to.be.calledOnceWith(MessageCodesEnum.I_AGREEMENT_EXPIRED, { agreementReference: '111' })
+
+        const agreement = await Agreement.findByPk('111') as Agreement
+        expect(agreement.status).to.eql(AgreementStatus.INACTIVE_RETAINED)
+        expect(agreement.retainedUntil?.getTime()).to.be.closeTo(Date.now() + 3600 * 1000, 5000)
+      })
+
+      it('should unpin retained data when the retention period elapsed', async () => {
+        await Agreement.bulkCreate([
+          mockAgreement({ agreementReference: 'elapsed', dataReference: 'elapsed', isActive: false, retainedUntil: new Date(Date.now() - 1000) }),
+          mockAgreement({ agreementReference: 'retained', dataReference: 'retained', isActive: false, retainedUntil: new Date(Date.now() + 1000) })
+        ])
+
+        const block = Substitute.for<BlockHeader>()
+        block.number.returns!(20)
+
+        const manager = Substitute.for<ProviderManager>()
+        await collectPinsClosure({ manager })(block)
+
+        manager.received(1).cancel('elapsed')
+        manager.received(1).unpin('elapsed', 'elapsed')
+        manager.didNotReceive().unpin('retained', Arg.any())
+        expect((await Agreement.findByPk('elapsed') as Agreement).status).to.eql(AgreementStatus.INACTIVE)
+        expect((await Agreement.findByPk('retained') as Agreement).status).to.eql(AgreementStatus.INACTIVE_RETAINED)
+        expect(channelSpy).not.called()
+      })
+
+      it('should reactivate retained Agreement when it receives funds', async () => {
+        const agreement = await Agreement.create(mockAgreement({
+          agreementReference: '111',
+          isActive: false,
+          retainedUntil: new Date(Date.now() + 1000),
+          expiredAtBlockNumber: 14,
+          availableFunds: 0
+        }))
+        expect(agreement.reactivate()).to.be.false()
+
+        agreement.availableFunds = agreement.periodPrice().times(2)
+        expect(agreement.reactivate()).to.be.true()
+        expect(agreement.status).to.eql(AgreementStatus.ACTIVE)
+        expect(agreement.expiredAtBlockNumber).to.be.null()
+      })
+    })
+  })
+  describe('Expiration confirmation', () => {
+    let originalConfirmation: Record<string, any>
+
+    const createExpiredAgreement = (agreementReference: string, exhaustedAgo: number): Promise<Agreement> =>
+      Agreement.create(mockAgreement({
+        agreementReference,
+        dataReference: agreementReference,
+        size: 100,
+        billingPeriod: 10,
+        billingPrice: 10,
+        availableFunds: 1000, // Enough only for one period
+        lastPayout: Date.now() - (10 * 1000) - exhaustedAgo
+      }))
+
+    const runGc = async (number: number): Promise<SubstituteOf<ProviderManager>> => {
+      const block = Substitute.for<BlockHeader>()
+      block.number.returns!(number)
+      const manager = Substitute.for<ProviderManager>()
+      await collectPinsClosure({ manager })(block)
+
+      return manager
+    }
+
+    beforeEach(async () => {
+      await sequelize.sync({ force: true })
+      channelSpy.resetHistory()
+
+      // @ts-ignore: Config is not typed
+      originalConfirmation = JSON.parse(JSON.stringify(config.gc.confirmation))
+    })
+
+    afterEach(() => {
+      // @ts-ignore: Config is not typed
+      config.gc.confirmation = originalConfirmation
+      // @ts-ignore: Config is not typed
+      config.strategy = Strategy.Blockchain
+    })
+
+    it('should confirm expiration by blocks with blockchain strategy', async () => {
+      // @ts-ignore: Config is not typed
+      config.gc.confirmation.blockchain.blocks = 2
+      await createExpiredAgreement('123', 1000)
+
+      await runGc(10)
+      const manager = await runGc(11)
+      manager.didNotReceive().unpin(Arg.all())
+      expect((await Agreement.findByPk('123'))?.isActive).to.be.true()
+
+      const confirmedManager = await runGc(12)
+      confirmedManager.received(1).unpin('123', '123')
+      expect((await Agreement.findByPk('123'))?.isActive).to.be.false()
+    })
+
+    it('should fallback to confirmations of events emitter with blockchain strategy', () => {
+      const condition = getConfirmedExpirationCondition({ number: 20 } as BlockHeader) as Record<string, any>
+
+      expect(condition.expiredAtBlockNumber[Op.lte]).to.eql(15)
+    })
+
+    it('should confirm expiration by time with marketplace strategy', async () => {
+      // @ts-ignore: Config is not typed
+      config.strategy = Strategy.Marketplace
+      // @ts-ignore: Config is not typed
+      Object.assign(config.gc.confirmation.marketplace, { mode: GcConfirmationMode.TIME, delay: '1m' })
+      await createExpiredAgreement('recent', 30 * 1000)
+      await createExpiredAgreement('old', 2 * 60 * 1000)
+
+      const manager = await runGc(10)
+
+      manager.received(1).unpin('old', 'old')
+      manager.didNotReceive().unpin('recent', 'recent')
+      expect((await Agreement.findByPk('old'))?.isActive).to.be.false()
+
+      const recent = await Agreement.findByPk('recent') as Agreement
+      expect(recent.isActive).to.be.true()
+      expect(recent.expiredAtBlockNumber).to.eql(10)
+    })
+
+    it('should rely on confirmations of cache service with marketplace strategy', async () => {
+      // @ts-ignore: Config is not typed
+      config.strategy = Strategy.Marketplace
+      // @ts-ignore: Config is not typed
+      config.gc.confirmation.marketplace.mode = GcConfirmationMode.CACHE
+      await createExpiredAgreement('123', 1000)
+
+      const manager = await runGc(10)
+
+      manager.received(1).unpin('123', '123')
+      expect((await Agreement.findByPk('123'))?.isActive).to.be.false()
+      expect(channelSpy).to.be.calledOnceWith(MessageCodesEnum.I_AGREEMENT_EXPIRED, { agreementReference: '123' })
+    })
+  })
+
+  describe('Pin retries', () => {
+    const minute = 60 * 1000
+
+    beforeEach(async () => {
+      await sequelize.sync({ force: true })
+      channelSpy.resetHistory()
+    })
+
+    it('should compute escalating delays up to the max delay', () => {
+      expect(getPinRetryDelay(1)).to.eql(10 * minute)
+      expect(getPinRetryDelay(2)).to.eql(40 * minute)
+      expect(getPinRetryDelay(10)).to.eql(24 * 60 * minute)
+    })
+
+    it('should schedule re-attempt of errored pinning and notify the consumer', async () => {
+      await Agreement.bulkCreate([
+        mockAgreement({ agreementReference: 'errored', dataReference: '/ipfs/errored', availableFunds: 100000 }),
+        mockAgreement({ agreementReference: 'no-funds', dataReference: '/ipfs/no-funds', availableFunds: 0 })
+      ])
+      const finish = new Date(Date.now() - minute)
+      await JobModel.bulkCreate([
+        { name: '/ipfs/errored', type: PIN_JOB_TYPE, agreementReference: 'errored', state: JobState.ERRORED, errorMessage: 'timeout', finish },
+        { name: '/ipfs/no-funds', type: PIN_JOB_TYPE, agreementReference: 'no-funds', state: JobState.ERRORED, finish }
+      ])
+
+      const manager = Substitute.for<ProviderManager>()
+      await retryPinsClosure({ manager })()
+
+      manager.didNotReceive().pin(Arg.all())
+      expect(channelSpy).to.be.calledOnceWith(MessageCodesEnum.W_HASH_RETRY_SCHEDULED, {
+        hash: '/ipfs/errored',
+        agreementReference: 'errored',
+        attempt: 1,
+        error: 'timeout',
+        nextAttemptAt: finish.getTime() + 10 * minute,
+        deadline: finish.getTime() + 7 * 24 * 60 * minute
+      })
+
+      const agreement = await Agreement.findByPk('errored') as Agreement
+      expect(agreement.pinRetryStep).to.eql(1)
+      expect(agreement.pinRetryDeadline?.getTime()).to.eql(finish.getTime() + 7 * 24 * 60 * minute)
+    })
+
+    it('should re-attempt pinning once the delay elapsed', async () => {
+      await Agreement.create(mockAgreement({
+        agreementReference: 'errored',
+        dataReference: '/ipfs/errored',
+        availableFunds: 100000,
+        pinRetryStep: 2,
+        pinRetryDeadline: new Date(Date.now() + minute)
+      }))
+      await JobModel.bulkCreate([
+        { name: '/ipfs/errored', type: PIN_JOB_TYPE, agreementReference: 'errored', state: JobState.ERRORED, finish: new Date(Date.now() - 100 * minute) },
+        { name: '/ipfs/errored', type: PIN_JOB_TYPE, agreementReference: 'errored', state: JobState.ERRORED, finish: new Date(Date.now() - 41 * minute) }
+      ])
+
+      const manager = Substitute.for<ProviderManager>()
+      manager.pin(Arg.all()).returns(Promise.resolve(true))
+      await retryPinsClosure({ manager })()
+
+      manager.received(1).pin('/ipfs/errored', Arg.any(), 'errored')
+      expect(channelSpy).not.called()
+      expect((await Agreement.findByPk('errored'))?.pinRetryAt).to.be.null()
+    })
+
+    it('should postpone refused re-attempt of pinning', async () => {
+      await Agreement.create(mockAgreement({
+        agreementReference: 'errored',
+        dataReference: '/ipfs/errored',
+        availableFunds: 100000,
+        pinRetryStep: 1,
+        pinRetryDeadline: new Date(Date.now() + 100 * minute),
+        pinRetryAt: new Date(Date.now() - minute)
+      }))
+      await JobModel.create({ name: '/ipfs/errored', type: PIN_JOB_TYPE, agreementReference: 'errored', state: JobState.ERRORED, finish: new Date(Date.now() - 11 * minute) })
+
+      const manager = Substitute.for<ProviderManager>()
+      manager.pin(Arg.all()).returns(Promise.resolve(false))
+      const start = Date.now()
+      await retryPinsClosure({ manager })()
+      await retryPinsClosure({ manager })()
+
+      manager.received(1).pin('/ipfs/errored', Arg.any(), 'errored')
+      const agreement = await Agreement.findByPk('errored') as Agreement
+      expect(agreement.pinRetryAt?.getTime()).to.be.gte(start + 10 * minute)
+      expect(channelSpy).not.to.be.called()
+    })
+
+    it('should give up refused re-attempt of pinning that would be postponed after the deadline', async () => {
+      await Agreement.create(mockAgreement({
+        agreementReference: 'errored',
+        dataReference: '/ipfs/errored',
+        availableFunds: 100000,
+        pinRetryStep: 1,
+        pinRetryDeadline: new Date(Date.now() + minute),
+        pinRetryAt: new Date(Date.now() - minute)
+      }))
+      await JobModel.create({
+        name: '/ipfs/errored',
+        type: PIN_JOB_TYPE,
+        agreementReference: 'errored',
+        state: JobState.ERRORED,
+        errorMessage: 'timeout',
+        finish: new Date(Date.now() - 11 * minute)
+      })
+
+      const manager = Substitute.for<ProviderManager>()
+      manager.pin(Arg.all()).returns(Promise.resolve(false))
+      await retryPinsClosure({ manager })()
+
+      manager.received(1).pin('/ipfs/errored', Arg.any(), 'errored')
+      expect(channelSpy).to.be.calledOnceWith(MessageCodesEnum.E_HASH_RETRY_GAVE_UP, {
+        hash: '/ipfs/errored',
+        agreementReference: 'errored',
+        attempts: 1,
+        error: 'timeout'
+      })
+
+      // The Agreement is not loaded for re-attempts anymore
+      const agreement = await Agreement.findByPk('errored') as Agreement
+      expect(agreement.pinRetryAt?.getTime()).to.be.gt(agreement.pinRetryDeadline?.getTime() as number)
+      channelSpy.resetHistory()
+      await retryPinsClosure({ manager })()
+      manager.received(1).pin(Arg.all())
+      expect(channelSpy).not.to.be.called()
+    })
+
+    it('should load only Agreements whose re-attempt is due', async () => {
+      await Agreement.bulkCreate([
+        mockAgreement({ agreementReference: 'unscheduled', availableFunds: 100000 }),
+        mockAgreement({ agreementReference: 'due', availableFunds: 100000, pinRetryStep: 1, pinRetryDeadline: new Date(Date.now() + minute), pinRetryAt: new Date(Date.now() - minute) }),
+        mockAgreement({ agreementReference: 'scheduled', availableFunds: 100000, pinRetryStep: 1, pinRetryDeadline: new Date(Date.now() + 100 * minute), pinRetryAt: new Date(Date.now() + minute) }),
+        mockAgreement({ agreementReference: 'gave-up', availableFunds: 100000, pinRetryStep: 1, pinRetryDeadline: new Date(Date.now() - 2 * minute), pinRetryAt: new Date(Date.now() - minute) }),
+        mockAgreement({ agreementReference: 'running', availableFunds: 100000, pinRetryStep: 1, pinRetryDeadline: new Date(Date.now() + minute) }),
+        mockAgreement({ agreementReference: 'recovered', availableFunds: 100000, pinRetryStep: 1, pinRetryDeadline: new Date(Date.now() + minute) }),
+        mockAgreement({ agreementReference: 'pinned', availableFunds: 100000 })
+      ])
+      await JobModel.bulkCreate([
+        ...['unscheduled', 'due', 'scheduled', 'gave-up', 'running', 'recovered'].map(agreementReference =>
+          ({ name: '/ipfs/123', type: PIN_JOB_TYPE, agreementReference, state: JobState.ERRORED, finish: new Date(Date.now() - 11 * minute) })
+        ),
+        { name: '/ipfs/123', type: PIN_JOB_TYPE, agreementReference: 'running', state: JobState.RUNNING },
+        { name: '/ipfs/123', type: PIN_JOB_TYPE, agreementReference: 'recovered', state: JobState.FINISHED },
+        { name: '/ipfs/123', type: PIN_JOB_TYPE, agreementReference: 'pinned', state: JobState.FINISHED },
+        { name: '/ipfs/123', type: UNPIN_JOB_TYPE, agreementReference: 'pinned', state: JobState.ERRORED }
+      ])
+      const findAllSpy = sinon.spy(Agreement, 'findAll')
+
+      try {
+        await retryPinsClosure({ manager: Substitute.for<ProviderManager>() })()
+
+        const agreements = await findAllSpy.firstCall.returnValue as Agreement[]
+        expect(agreements.map(agreement => agreement.agreementReference).sort()).to.eql(['due', 'recovered', 'unscheduled'])
+      } finally {
+        findAllSpy.restore()
+      }
+    })
+
+    it('should give up when the re-attempt would be after the deadline', async () => {
+      await Agreement.create(mockAgreement({
+        agreementReference: 'errored',
+        dataReference: '/ipfs/errored',
+        availableFunds: 100000,
+        pinRetryStep: 1,
+        pinRetryDeadline: new Date(Date.now() + minute)
+      }))
+      await JobModel.bulkCreate([
+        { name: '/ipfs/errored', type: PIN_JOB_TYPE, agreementReference: 'errored', state: JobState.ERRORED, finish: new Date(Date.now() - 100 * minute) },
+        { name: '/ipfs/errored', type: PIN_JOB_TYPE, agreementReference: 'errored', state: JobState.ERRORED, errorMessage: 'timeout', finish: new Date() }
+      ])
+
+      const manager = Substitute.for<ProviderManager>()
+      const retry = retryPinsClosure({ manager })
+      await retry()
+      await retry()
+
+      manager.didNotReceive().pin(Arg.all())
+      expect(channelSpy).to.be.calledOnceWith(MessageCodesEnum.E_HASH_RETRY_GAVE_UP, {
+        hash: '/ipfs/errored',
+        agreementReference: 'errored',
+        attempts: 2,
+        error: 'timeout'
+      })
+    })
+
+    it('should not re-attempt pinning that would always fail', async () => {
+      await Agreement.create(mockAgreement({ agreementReference: 'oversized', dataReference: '/ipfs/oversized', availableFunds: 100000 }))
+      await JobModel.create({
+        name: '/ipfs/oversized',
+        type: PIN_JOB_TYPE,
+        agreementReference: 'oversized',
+        state: JobState.ERRORED,
+        errorCode: HashExceedsSizeError.code,
+        finish: new Date(Date.now() - 100 * minute)
+      })
+
+      const manager = Substitute.for<ProviderManager>()
+      await retryPinsClosure({ manager })()
+
+      manager.didNotReceive().pin(Arg.all())
+      expect(channelSpy).not.called()
+    })
+
+    it('should reset the re-attempts when pinning finished', async () => {
+      await Agreement.create(mockAgreement({
+        agreementReference: 'pinned',
+        availableFunds: 100000,
+        pinRetryStep: 1,
+        pinRetryDeadline: new Date()
+      }))
+      await JobModel.bulkCreate([
+        { name: '/ipfs/123', type: PIN_JOB_TYPE, agreementReference: 'pinned', state: JobState.ERRORED },
+        { name: '/ipfs/123', type: PIN_JOB_TYPE, agreementReference: 'pinned', state: JobState.FINISHED }
+      ])
+
+      await retryPinsClosure({ manager: Substitute.for<ProviderManager>() })()
+
+      const agreement = await Agreement.findByPk('pinned') as Agreement
+      expect(agreement.pinRetryStep).to.eql(0)
+      expect(agreement.pinRetryDeadline).to.be.null()
+    })
+  })
+
+  describe('Pins audit', () => {
+    beforeEach(async () => {
+      await sequelize.sync({ force: true })
+      channelSpy.resetHistory()
+
+      await Agreement.bulkCreate([
+        mockAgreement({ agreementReference: 'pinned', dataReference: '/ipfs/pinned' }),
+        mockAgreement({ agreementReference: 'missing', dataReference: '/ipfs/missing', size: 10 }),
+        mockAgreement({ agreementReference: 'in-progress', dataReference: '/ipfs/in-progress' }),
+        mockAgreement({ agreementReference: 'inactive', dataReference: '/ipfs/inactive', isActive: false }),
+        mockAgreement({ agreementReference: 'errored', dataReference: '/ipfs/errored' })
+      ])
+      await JobModel.bulkCreate([
+        { name: '/ipfs/pinned', type: PIN_JOB_TYPE, agreementReference: 'pinned', state: JobState.FINISHED },
+        { name: '/ipfs/missing', type: PIN_JOB_TYPE, agreementReference: 'missing', state: JobState.FINISHED },
+        { name: '/ipfs/in-progress', type: PIN_JOB_TYPE, agreementReference: 'in-progress', state: JobState.FINISHED },
+        { name: '/ipfs/in-progress', type: PIN_JOB_TYPE, agreementReference: 'in-progress', state: JobState.RUNNING },
+        { name: '/ipfs/inactive', type: PIN_JOB_TYPE, agreementReference: 'inactive', state: JobState.FINISHED },
+        { name: '/ipfs/errored', type: PIN_JOB_TYPE, agreementReference: 'errored', state: JobState.ERRORED },
+        { name: '/ipfs/errored', type: UNPIN_JOB_TYPE, agreementReference: 'errored', state: JobState.FINISHED }
+      ])
+    })
+
+    it('should re-pin missing data of active Agreements', async () => {
+      const manager = Substitute.for<ProviderManager>()
+      manager.isPinned('/ipfs/pinned').returns(Promise.resolve(true))
+      manager.isPinned('/ipfs/missing').returns(Promise.resolve(false))
+      manager.pin(Arg.all()).returns(Promise.resolve(true))
+
+      await auditPinsClosure({ manager })()
+
+      manager.didNotReceive().isPinned('/ipfs/in-progress')
+      manager.didNotReceive().isPinned('/ipfs/inactive')
+      manager.didNotReceive().isPinned('/ipfs/errored')
+      manager.received(1).pin('/ipfs/missing', Arg.is(size => size.eq(10)), 'missing', { priority: JobPriority.HIGH })
+      manager.didNotReceive().pin('/ipfs/pinned', Arg.any(), Arg.any(), Arg.any())
+      expect(channelSpy).to.be.calledOnceWith(MessageCodesEnum.W_HASH_MISSING, { hash: '/ipfs/missing', agreementReference: 'missing' })
+
+      const audits = await PinAuditModel.findAll({ order: [['agreementReference', 'ASC']] })
+      expect(audits).to.have.length(2)
+      expect(audits[0].agreementReference).to.eql('missing')
+      expect(audits[0].isPinned).to.be.false()
+      expect(audits[0].repinCount).to.eql(1)
+      expect(audits[1].agreementReference).to.eql('pinned')
+      expect(audits[1].isPinned).to.be.true()
+      expect(audits[1].repinCount).to.eql(0)
+    })
+
+    it('should audit at most once per interval', async () => {
+      const manager = Substitute.for<ProviderManager>()
+      manager.isPinned(Arg.any()).returns(Promise.resolve(true))
+      const audit = auditPinsClosure({ manager })
+
+      await audit()
+      await audit()
+
+      manager.received(2).isPinned(Arg.any())
+    })
+  })
+  describe('Unpin retries', () => {
+    it('should re-attempt unpinning at most once per interval', async () => {
+      const manager = Substitute.for<ProviderManager>()
+      manager.retryUnpinning().returns(Promise.resolve())
+      const retry = retryUnpinsClosure({ manager })
+
+      await retry()
+      await retry()
+
+      manager.received(1).retryUnpinning()
+    })
   })
   describe('DirectAddressess', () => {
     beforeEach(async () => {
@@ -211,6 +726,27 @@ describe('GC', function () {
 
       expect((await DirectAddressModel.findAll()).length).to.be.eql(0)
     })
+    it('Should not remove expired addresses of Agreements with pending Jobs', async () => {
+      await Agreement.bulkCreate([
+        mockAgreement({ agreementReference: 'pending' }),
+        mockAgreement({ agreementReference: 'finished' })
+      ])
+      await DirectAddressModel.bulkCreate([
+        { peerId: 'TestPeer', agreementReference: 'pending' },
+        { peerId: 'TestPeer', agreementReference: 'finished' }
+      ])
+      await JobModel.bulkCreate([
+        { name: '/ipfs/123', type: PIN_JOB_TYPE, agreementReference: 'pending', state: JobState.BACKOFF },
+        { name: '/ipfs/456', type: PIN_JOB_TYPE, agreementReference: 'finished', state: JobState.ERRORED }
+      ])
+
+      await sleep(1100)
+
+      await collectDirectAddresses()()
+
+      const addresses = await DirectAddressModel.findAll()
+      expect(addresses.map(address => address.agreementReference)).to.eql(['pending'])
+    })
     it('Should not remove if not expire', async () => {
       await DirectAddressModel.create({ peerId: 'TestPeer', agreementReference: 'testAgreement' })
 
@@ -0,0 +1,159 @@
+import chai from 'chai'
+import dirtyChai from 'dirty-chai'
+import chaiAsPromised from 'chai-as-promised'
+import sinonChai from 'sinon-chai'
+import sinon from 'sinon'
+import type Sinon from 'sinon'
+import BigNumber from 'bignumber.js'
+
+import {
+  aggregateClusterStatus,
+  ClusterPinJob,
+  ClusterPinStatus,
+  clusterStatusToJobState,
+  IpfsClusterClient,
+  IpfsClusterProvider
+} from '../../src/providers/ipfs-cluster'
+import { JobsManager } from '../../src/jobs-manager'
+import { IpfsClient } from '../../src/providers/ipfs'
+import { IpfsClusterOptions, JobState } from '../../src/definitions'
+import { HashExceedsSizeError, InvalidCidError, JobsError, NotPinnedError, PinTimeoutError } from '../../src/errors'
+import * as throughput from '../../src/throughput'
+
+chai.use(sinonChai)
+chai.use(chaiAsPromised)
+chai.use(dirtyChai)
+const expect = chai.expect
+
+const HASH = '/ipfs/QmV52RowihjoLGa4bAbYfFSMaXB6neuqCPZsZtvZjZ7xL7'
+const OPTIONS: IpfsClusterOptions = {
+  enabled: true,
+  url: 'http://localhost:9094',
+  replicationFactorMin: 2,
+  replicationFactorMax: 3,
+  statusPollInterval: '10ms'
+}
+
+const peerMap = (...statuses: string[]): ClusterPinStatus => ({
+  // eslint-disable-next-line camelcase
+  peer_map: statuses.reduce((map, status, i) => ({
+    ...map,
+    [`peer${i}`]: { peername: `peer${i}`, status, error: status === 'pin_error' ? 'context deadline exceeded' : '' }
+  }), {})
+})
+
+describe('IPFS Cluster', function () {
+  let client: IpfsClusterClient
+  let ipfs: IpfsClient
+  let pinStub: Sinon.SinonStub
+  let statusStub: Sinon.SinonStub
+  let objectStatStub: Sinon.SinonStub
+  let estimateTimeoutStub: Sinon.SinonStub
+
+  beforeEach(() => {
+    client = new IpfsClusterClient(OPTIONS.url as string)
+    pinStub = sinon.stub(client, 'pin').resolves({ cid: { '/': HASH.replace('/ipfs/', '') } })
+    statusStub = sinon.stub(client, 'status')
+    objectStatStub = sinon.stub().resolves({ CumulativeSize: 1024 })
+    ipfs = { object: { stat: objectStatStub } } as unknown as IpfsClient
+    estimateTimeoutStub = sinon.stub(throughput, 'estimateTimeout').resolves(5000)
+  })
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  describe('Status', () => {
+    it('should map peer status to Job state', () => {
+      expect(clusterStatusToJobState('pin_queued')).to.eql(JobState.CREATED)
+      expect(clusterStatusToJobState('pinning')).to.eql(JobState.RUNNING)
+      expect(clusterStatusToJobState('pinned')).to.eql(JobState.FINISHED)
+      expect(clusterStatusToJobState('pin_error')).to.eql(JobState.ERRORED)
+      expect(clusterStatusToJobState('remote')).to.be.undefined()
+    })
+
+    it('should aggregate statuses of all peers', () => {
+      expect(aggregateClusterStatus(peerMap('pinned', 'pinned', 'remote'))).to.eql(JobState.FINISHED)
+      expect(aggregateClusterStatus(peerMap('pinned', 'pinning'))).to.eql(JobState.RUNNING)
+      expect(aggregateClusterStatus(peerMap('pinned', 'pin_queued'))).to.eql(JobState.RUNNING)
+      expect(aggregateClusterStatus(peerMap('pin_queued', 'remote'))).to.eql(JobState.CREATED)
+      expect(aggregateClusterStatus(peerMap('pinned', 'pin_error'))).to.eql(JobState.ERRORED)
+      expect(aggregateClusterStatus(peerMap('remote'))).to.eql(JobState.CREATED)
+    })
+  })
+
+  describe('Pin Job', () => {
+    it('should pin with replication factor and wait until all peers pinned', async () => {
+      statusStub.onFirstCall().resolves(peerMap('pin_queued', 'pinning'))
+      statusStub.onSecondCall().resolves(peerMap('pinned', 'pinning'))
+      statusStub.onThirdCall().resolves(peerMap('pinned', 'pinned'))
+
+      await new ClusterPinJob(client, ipfs, OPTIONS, HASH, new BigNumber(10), 'agreement')._run()
+
+      expect(pinStub).to.be.calledOnce()
+      const [cid, min, max, name] = pinStub.firstCall.args
+      expect(`/ipfs/${cid.toString()}`).to.eql(HASH)
+      expect([min, max, name]).to.eql([2, 3, 'agreement'])
+      expect(statusStub).to.be.calledThrice()
+    })
+
+    it('should fail when some peer fails to pin', async () => {
+      statusStub.resolves(peerMap('pinned', 'pin_error'))
+
+      await expect(new ClusterPinJob(client, ipfs, OPTIONS, HASH, new BigNumber(10), 'agreement')._run())
+        .to.be.rejectedWith(JobsError, 'peer1: context deadline exceeded')
+    })
+
+    it('should not pin invalid CID', async () => {
+      await expect(new ClusterPinJob(client, ipfs, OPTIONS, '/ipfs/invalid', new BigNumber(10), 'agreement')._run())
+        .to.be.rejectedWith(InvalidCidError, 'invalid is not valid CID')
+      expect(pinStub).not.to.be.called()
+    })
+
+    it('should not pin hash exceeding the expected size', async () => {
+      objectStatStub.resolves({ CumulativeSize: 11 * 1024 * 1024 })
+
+      await expect(new ClusterPinJob(client, ipfs, OPTIONS, HASH, new BigNumber(10), 'agreement')._run())
+        .to.be.rejectedWith(HashExceedsSizeError)
+      expect(pinStub).not.to.be.called()
+    })
+
+    it('should fail when the pinning does not finish before the estimated timeout', async () => {
+      estimateTimeoutStub.resolves(50)
+      statusStub.resolves(peerMap('pinned', 'pinning'))
+
+      await expect(new ClusterPinJob(client, ipfs, OPTIONS, HASH, new BigNumber(10), 'agreement')._run())
+        .to.be.rejectedWith(PinTimeoutError)
+      expect(estimateTimeoutStub).to.be.calledOnceWith('ipfs-cluster - pin', new BigNumber(1024))
+    })
+
+    it('should stop waiting for the pin when cancelled', async () => {
+      statusStub.resolves(peerMap('pinning'))
+      const job = new ClusterPinJob(client, ipfs, { ...OPTIONS, statusPollInterval: '1h' }, HASH, new BigNumber(10), 'agreement')
+
+      const promise = job._run()
+      setTimeout(() => job.abort(), 50)
+
+      await expect(promise).to.be.rejectedWith(JobsError, 'was cancelled')
+      expect(statusStub).to.be.calledOnce()
+    })
+  })
+
+  describe('Provider', () => {
+    it('should report pin status', async () => {
+      const provider = new IpfsClusterProvider(new JobsManager(), client, ipfs, OPTIONS)
+      statusStub.resolves(peerMap('pinned', 'pinning'))
+      expect(await provider.isPinned(HASH)).to.be.false()
+
+      statusStub.resolves(peerMap('pinned', 'remote'))
+      expect(await provider.isPinned(HASH)).to.be.true()
+    })
+
+    it('should throw NotPinnedError when the cluster does not know the hash', async () => {
+      const provider = new IpfsClusterProvider(new JobsManager(), client, ipfs, OPTIONS)
+      sinon.stub(client, 'unpin').rejects(Object.assign(new Error('Not found'), { status: 404 }))
+
+      await expect(provider.unpin(HASH)).to.be.rejectedWith(NotPinnedError)
+    })
+  })
+})
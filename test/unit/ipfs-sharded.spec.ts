@@ -0,0 +1,246 @@
+import chai from 'chai'
+import dirtyChai from 'dirty-chai'
+import chaiAsPromised from 'chai-as-promised'
+import sinonChai from 'sinon-chai'
+import sinon from 'sinon'
+import type Sinon from 'sinon'
+import BigNumber from 'bignumber.js'
+import { Sequelize } from 'sequelize-typescript'
+import { getObject } from 'sequelize-store'
+
+import { sequelizeFactory } from '../../src/sequelize'
+import { initStore } from '../../src/store'
+import { JobsManager } from '../../src/jobs-manager'
+import { IpfsClient, IpfsProvider, PinJob } from '../../src/providers/ipfs'
+import { RebalanceJob, ShardedIpfsProvider } from '../../src/providers/ipfs-sharded'
+import { NotPinnedError } from '../../src/errors'
+import { BytesInMb } from '../../src/utils'
+import Agreement from '../../src/models/agreement.model'
+import { mockAgreement } from '../fake-marketplace-service'
+
+chai.use(sinonChai)
+chai.use(chaiAsPromised)
+chai.use(dirtyChai)
+const expect = chai.expect
+
+const HASH = '/ipfs/QmV52RowihjoLGa4bAbYfFSMaXB6neuqCPZsZtvZjZ7xL7'
+const OTHER_HASH = '/ipfs/QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco'
+
+describe('Sharded IPFS', function () {
+  let sequelize: Sequelize
+  let jobsManager: JobsManager
+  let nodes: Map<string, IpfsProvider>
+  let disk1: IpfsProvider
+  let disk2: IpfsProvider
+  let provider: ShardedIpfsProvider
+
+  // Free capacity is in MB
+  const createNode = (freeCapacity: number): IpfsProvider => {
+    const stat = sinon.stub().resolves({ repoSize: new BigNumber(0), storageMax: new BigNumber(freeCapacity * BytesInMb) })
+    const node = new IpfsProvider(jobsManager, { repo: { stat } } as unknown as IpfsClient)
+    sinon.stub(node, 'pin').resolves()
+    sinon.stub(node, 'unpin').resolves()
+    sinon.stub(node, 'isPinned').resolves(true)
+
+    return node
+  }
+
+  before(async () => {
+    sequelize = await sequelizeFactory()
+    await initStore(sequelize)
+  })
+
+  beforeEach(async () => {
+    await sequelize.sync({ force: true })
+    delete getObject().ipfsNodes
+
+    jobsManager = new JobsManager()
+    disk1 = createNode(100)
+    disk2 = createNode(200)
+    nodes = new Map([['disk1', disk1], ['disk2', disk2]])
+    provider = new ShardedIpfsProvider(jobsManager, nodes)
+  })
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  describe('Pinning', () => {
+    it('should pin on the node with the most free capacity and persist it', async () => {
+      await Agreement.create(mockAgreement({ agreementReference: 'agreement1', dataReference: HASH }))
+
+      await provider.pin(HASH, new BigNumber(10), 'agreement1')
+
+      expect(disk2.pin).to.be.calledOnceWith(HASH)
+      expect(disk1.pin).not.to.be.called()
+      expect((await Agreement.findByPk('agreement1'))?.ipfsNode).to.eql('disk2')
+    })
+
+    it('should keep the assigned node', async () => {
+      await Agreement.create(mockAgreement({ agreementReference: 'agreement1', dataReference: HASH, ipfsNode: 'disk1' }))
+
+      await provider.pin(HASH, new BigNumber(10), 'agreement1')
+
+      expect(disk1.pin).to.be.calledOnceWith(HASH)
+      expect(disk2.pin).not.to.be.called()
+    })
+
+    it('should pin the same hash on the same node', async () => {
+      await Agreement.bulkCreate([
+        mockAgreement({ agreementReference: 'agreement1', dataReference: HASH, ipfsNode: 'disk1' }),
+        mockAgreement({ agreementReference: 'agreement2', dataReference: HASH })
+      ])
+
+      await provider.pin(HASH, new BigNumber(10), 'agreement2')
+
+      expect(disk1.pin).to.be.calledOnceWith(HASH)
+      expect((await Agreement.findByPk('agreement2'))?.ipfsNode).to.eql('disk1')
+    })
+
+    it('should pin the same hash on the node of retained Agreement', async () => {
+      await Agreement.bulkCreate([
+        mockAgreement({
+          agreementReference: 'agreement1',
+          dataReference: HASH,
+          ipfsNode: 'disk1',
+          isActive: false,
+          retainedUntil: new Date(Date.now() + 1000)
+        }),
+        mockAgreement({ agreementReference: 'agreement2', dataReference: HASH })
+      ])
+
+      await provider.pin(HASH, new BigNumber(10), 'agreement2')
+
+      expect(disk1.pin).to.be.calledOnceWith(HASH)
+      expect(disk2.pin).not.to.be.called()
+    })
+
+    it('should assign node for targets of IPNS names', async () => {
+      await Agreement.create(mockAgreement({ agreementReference: 'agreement1', dataReference: '/ipns/name' }))
+
+      expect(await provider.getClientFor(HASH, 'agreement1')).to.eql(disk2.client)
+      expect((await Agreement.findByPk('agreement1'))?.ipfsNode).to.eql('disk2')
+    })
+  })
+
+  describe('Unpinning', () => {
+    it('should unpin from the assigned node', async () => {
+      await Agreement.create(mockAgreement({ agreementReference: 'agreement1', dataReference: HASH, ipfsNode: 'disk1', isActive: false }))
+
+      await provider.unpin(HASH)
+
+      expect(disk1.unpin).to.be.calledOnceWith(HASH)
+      expect(disk2.unpin).not.to.be.called()
+    })
+
+    it('should try all nodes when the hash is not assigned', async () => {
+      (disk1.unpin as Sinon.SinonStub).rejects(new NotPinnedError('not pinned'))
+
+      await provider.unpin(HASH)
+
+      expect(disk1.unpin).to.be.calledOnceWith(HASH)
+      expect(disk2.unpin).to.be.calledOnceWith(HASH)
+    })
+
+    it('should throw NotPinnedError when no node has the hash pinned', async () => {
+      (disk1.unpin as Sinon.SinonStub).rejects(new NotPinnedError('not pinned'));
+      (disk2.unpin as Sinon.SinonStub).rejects(new NotPinnedError('not pinned'))
+
+      await expect(provider.unpin(HASH)).to.be.rejectedWith(NotPinnedError)
+    })
+  })
+
+  describe('Rebalancing', () => {
+    let enqueueStub: Sinon.SinonStub
+
+    beforeEach(async () => {
+      enqueueStub = sinon.stub(jobsManager, 'enqueue').resolves()
+      await Agreement.bulkCreate([
+        mockAgreement({ agreementReference: 'agreement1', dataReference: HASH, ipfsNode: 'disk1', size: 60 }),
+        mockAgreement({ agreementReference: 'agreement2', dataReference: HASH, ipfsNode: 'disk1', size: 60 }),
+        mockAgreement({ agreementReference: 'agreement3', dataReference: OTHER_HASH, ipfsNode: 'disk1', size: 30 })
+      ])
+    })
+
+    it('should only record the nodes on the first run', async () => {
+      await provider.rebalance()
+
+      expect(enqueueStub).not.to.be.called()
+      expect(getObject().ipfsNodes).to.eql(['disk1', 'disk2'])
+    })
+
+    it('should move hashes to the added node until the capacity is balanced', async () => {
+      getObject().ipfsNodes = ['disk1', 'disk2']
+      nodes.set('disk3', createNode(250))
+
+      await provider.rebalance()
+
+      // After moving 60MB disk3 has 190MB free, moving 30MB more would leave it with less than disk1
+      expect(enqueueStub).to.be.calledOnce()
+      const [job] = enqueueStub.firstCall.args
+      expect(job).to.be.instanceOf(RebalanceJob)
+      expect(job.name).to.eql(HASH)
+      expect(job.notifiesConsumer).to.be.false()
+      expect(getObject().ipfsNodes).to.eql(['disk1', 'disk2'])
+    })
+
+    it('should record the added node once there is nothing left to move', async () => {
+      getObject().ipfsNodes = ['disk1', 'disk2']
+      nodes.set('disk3', createNode(50))
+
+      await provider.rebalance()
+
+      expect(enqueueStub).not.to.be.called()
+      expect(getObject().ipfsNodes).to.eql(['disk1', 'disk2', 'disk3'])
+    })
+
+    it('should not move IPNS names', async () => {
+      await Agreement.destroy({ where: {} })
+      await Agreement.create(mockAgreement({ agreementReference: 'agreement4', dataReference: '/ipns/name', ipfsNode: 'disk1', size: 60 }))
+      getObject().ipfsNodes = ['disk1', 'disk2']
+      nodes.set('disk3', createNode(250))
+
+      await provider.rebalance()
+
+      expect(enqueueStub).not.to.be.called()
+    })
+
+    it('should pin on the target, reassign the Agreements and unpin from the source', async () => {
+      const pinRunStub = sinon.stub(PinJob.prototype, '_run').resolves()
+      const source = { name: 'disk1', provider: disk1 }
+      const target = { name: 'disk2', provider: disk2 }
+
+      await new RebalanceJob(source, target, HASH, new BigNumber(60), 'agreement1')._run()
+
+      expect(pinRunStub).to.be.calledOnce()
+      expect(source.provider.unpin).to.be.calledOnceWith(HASH)
+      const agreements = await Agreement.findAll({ order: [['agreementReference', 'ASC']] })
+      expect(agreements.map(agreement => agreement.ipfsNode)).to.eql(['disk2', 'disk2', 'disk1'])
+    })
+
+    it('should keep the data on the source when the move fails after pinning on the target', async () => {
+      const pinRunStub = sinon.stub(PinJob.prototype, '_run').resolves()
+      const saveStub = sinon.stub(Agreement.prototype, 'save').callThrough()
+      saveStub.onSecondCall().rejects(new Error('SQLITE_BUSY'))
+      const source = { name: 'disk1', provider: disk1 }
+      const target = { name: 'disk2', provider: disk2 }
+      const job = new RebalanceJob(source, target, HASH, new BigNumber(60), 'agreement1')
+
+      await expect(job._run()).to.be.rejectedWith('SQLITE_BUSY')
+
+      expect(source.provider.unpin).not.to.be.called()
+      let agreements = await Agreement.findAll({ order: [['agreementReference', 'ASC']] })
+      expect(agreements.map(agreement => agreement.ipfsNode)).to.eql(['disk2', 'disk1', 'disk1'])
+      expect(await provider.isPinned(HASH)).to.be.true()
+
+      // Retry of the Job finishes the move
+      saveStub.restore()
+      await job._run()
+
+      expect(pinRunStub).to.be.calledTwice()
+      expect(source.provider.unpin).to.be.calledOnceWith(HASH)
+      agreements = await Agreement.findAll({ order: [['agreementReference', 'ASC']] })
+      expect(agreements.map(agreement => agreement.ipfsNode)).to.eql(['disk2', 'disk2', 'disk1'])
+    })
+  })
+})
@@ -0,0 +1,206 @@
+import chai from 'chai'
+import dirtyChai from 'dirty-chai'
+import chaiAsPromised from 'chai-as-promised'
+import sinonChai from 'sinon-chai'
+import sinon from 'sinon'
+import type Sinon from 'sinon'
+import BigNumber from 'bignumber.js'
+import { Sequelize } from 'sequelize-typescript'
+
+import { sequelizeFactory } from '../../src/sequelize'
+import { JobsManager } from '../../src/jobs-manager'
+import { IpfsClient, IpfsProvider, PinJob } from '../../src/providers/ipfs'
+import { IpnsProvider, IpnsResolveJob } from '../../src/providers/ipns'
+import { HashExceedsSizeError } from '../../src/errors'
+import { JobPriority } from '../../src/definitions'
+import IpnsResolutionModel from '../../src/models/ipns-resolution.model'
+import PinReferenceModel from '../../src/models/pin-reference.model'
+import Agreement from '../../src/models/agreement.model'
+import { mockAgreement } from '../fake-marketplace-service'
+
+chai.use(sinonChai)
+chai.use(chaiAsPromised)
+chai.use(dirtyChai)
+const expect = chai.expect
+
+const NAME = '/ipns/k51qzi5uqu5dlvj2baxnqndepeb86cbk3ng7n3i46uzyxzyqj2xjonzllnv0v8'
+const FIRST_TARGET = '/ipfs/QmV52RowihjoLGa4bAbYfFSMaXB6neuqCPZsZtvZjZ7xL7'
+const SECOND_TARGET = '/ipfs/QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco'
+
+describe('IPNS', function () {
+  let sequelize: Sequelize
+  let ipfs: IpfsProvider
+  let resolveStub: Sinon.SinonStub
+  let pinRunStub: Sinon.SinonStub
+  let unpinStub: Sinon.SinonStub
+  let isPinnedStub: Sinon.SinonStub
+
+  const resolvesTo = (target: string): void => {
+    resolveStub.callsFake(async function * () { yield target })
+  }
+
+  before(async () => {
+    sequelize = await sequelizeFactory()
+  })
+
+  beforeEach(async () => {
+    await sequelize.sync({ force: true })
+
+    resolveStub = sinon.stub()
+    ipfs = new IpfsProvider(new JobsManager(), { name: { resolve: resolveStub } } as unknown as IpfsClient)
+    unpinStub = sinon.stub(ipfs, 'unpin').resolves()
+    isPinnedStub = sinon.stub(ipfs, 'isPinned').resolves(true)
+    pinRunStub = sinon.stub(PinJob.prototype, '_run').resolves()
+  })
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  describe('Resolve Job', () => {
+    const run = (): Promise<void> => new IpnsResolveJob(ipfs, ipfs, NAME, new BigNumber(10), 'agreement')._run()
+
+    it('should pin target of the name and record the resolution', async () => {
+      resolvesTo(FIRST_TARGET)
+
+      await run()
+
+      expect(resolveStub).to.be.calledOnceWith(NAME)
+      expect(pinRunStub).to.be.calledOnce()
+      const resolutions = await IpnsResolutionModel.findAll()
+      expect(resolutions).to.have.length(1)
+      expect(resolutions[0].name).to.eql(NAME)
+      expect(resolutions[0].target).to.eql(FIRST_TARGET)
+      expect(resolutions[0].isPinned).to.be.true()
+    })
+
+    it('should not pin again when the name resolves to the same target', async () => {
+      resolvesTo(FIRST_TARGET)
+
+      await run()
+      await run()
+
+      expect(pinRunStub).to.be.calledOnce()
+      expect(isPinnedStub).to.be.calledOnceWith(FIRST_TARGET)
+      expect(await IpnsResolutionModel.count()).to.eql(1)
+    })
+
+    it('should pin again the same target when it is not pinned anymore', async () => {
+      resolvesTo(FIRST_TARGET)
+      await run()
+
+      isPinnedStub.resolves(false)
+      await run()
+
+      expect(pinRunStub).to.be.calledTwice()
+      expect(unpinStub).not.to.be.called()
+      expect(await IpnsResolutionModel.count()).to.eql(1)
+    })
+
+    it('should pin the whole DAG of target with path', async () => {
+      resolvesTo(`${FIRST_TARGET}/some/file.txt`)
+
+      await run()
+
+      const resolutions = await IpnsResolutionModel.findAll()
+      expect(resolutions.map(resolution => resolution.target)).to.eql([FIRST_TARGET])
+      expect(pinRunStub.firstCall.thisValue.name).to.eql(FIRST_TARGET)
+    })
+
+    it('should pin new target and unpin the superseded one', async () => {
+      resolvesTo(FIRST_TARGET)
+      await run()
+
+      resolvesTo(SECOND_TARGET)
+      await run()
+
+      expect(pinRunStub).to.be.calledTwice()
+      expect(unpinStub).to.be.calledOnceWith(FIRST_TARGET)
+      const resolutions = await IpnsResolutionModel.findAll({ order: [['id', 'ASC']] })
+      expect(resolutions.map(resolution => [resolution.target, resolution.isPinned])).to.eql([
+        [FIRST_TARGET, false],
+        [SECOND_TARGET, true]
+      ])
+    })
+
+    it('should not unpin superseded target referenced by other Agreement', async () => {
+      resolvesTo(FIRST_TARGET)
+      await run()
+      await PinReferenceModel.create({ dataReference: FIRST_TARGET, agreementReference: 'other' })
+
+      resolvesTo(SECOND_TARGET)
+      await run()
+
+      expect(unpinStub).not.to.be.called()
+    })
+
+    it('should keep previous target when the new one exceeds the size', async () => {
+      resolvesTo(FIRST_TARGET)
+      await run()
+
+      resolvesTo(SECOND_TARGET)
+      pinRunStub.rejects(new HashExceedsSizeError('The hash exceeds payed size!', new BigNumber(20), new BigNumber(10)))
+      await expect(run()).to.be.rejectedWith(HashExceedsSizeError)
+      await run() // Oversized target is not fetched again
+
+      expect(pinRunStub).to.be.calledTwice()
+      expect(unpinStub).not.to.be.called()
+      const resolutions = await IpnsResolutionModel.findAll({ order: [['id', 'ASC']] })
+      expect(resolutions.map(resolution => [resolution.target, resolution.isPinned])).to.eql([
+        [FIRST_TARGET, true],
+        [SECOND_TARGET, false]
+      ])
+    })
+  })
+
+  describe('Provider', () => {
+    it('should refresh names of active Agreements', async () => {
+      const jobsManager = new JobsManager()
+      const enqueueStub = sinon.stub(jobsManager, 'enqueue').resolves()
+      const provider = new IpnsProvider(jobsManager, ipfs)
+      await Agreement.bulkCreate([
+        mockAgreement({ agreementReference: 'ipns', dataReference: NAME, availableFunds: 1000000 }),
+        mockAgreement({ agreementReference: 'ipfs', dataReference: FIRST_TARGET, availableFunds: 1000000 }),
+        mockAgreement({ agreementReference: 'inactive', dataReference: NAME, availableFunds: 1000000, isActive: false })
+      ])
+
+      await provider.refresh()
+
+      expect(enqueueStub).to.be.calledOnce()
+      const [job, priority] = enqueueStub.firstCall.args
+      expect(job).to.be.instanceOf(IpnsResolveJob)
+      expect(job.name).to.eql(NAME)
+      expect(job.agreementReference).to.eql('ipns')
+      expect(job.notifiesConsumer).to.be.false()
+      expect(priority).to.eql(JobPriority.LOW)
+    })
+
+    it('should pin targets with the given provider', async () => {
+      const targets = { getClientFor: sinon.stub().resolves({}), isPinned: sinon.stub().resolves(true), unpin: sinon.stub().resolves() }
+      const provider = new IpnsProvider(new JobsManager(), ipfs, targets)
+      resolvesTo(FIRST_TARGET)
+      await new IpnsResolveJob(ipfs, targets, NAME, new BigNumber(10), 'agreement')._run()
+
+      expect(targets.getClientFor).to.be.calledOnceWith(FIRST_TARGET, 'agreement')
+      expect(await provider.isPinned(NAME)).to.be.true()
+      expect(targets.isPinned).to.be.calledOnceWith(FIRST_TARGET)
+
+      await provider.unpin(NAME)
+      expect(targets.unpin).to.be.calledOnceWith(FIRST_TARGET)
+      expect(unpinStub).not.to.be.called()
+    })
+
+    it('should unpin pinned targets of the name', async () => {
+      const provider = new IpnsProvider(new JobsManager(), ipfs)
+      await IpnsResolutionModel.bulkCreate([
+        { agreementReference: 'agreement', name: NAME, target: FIRST_TARGET, isPinned: false, resolvedAt: new Date() },
+        { agreementReference: 'agreement', name: NAME, target: SECOND_TARGET, isPinned: true, resolvedAt: new Date() }
+      ])
+
+      await provider.unpin(NAME)
+
+      expect(unpinStub).to.be.calledOnceWith(SECOND_TARGET)
+      expect(await IpnsResolutionModel.count({ where: { isPinned: true } })).to.eql(0)
+    })
+  })
+})
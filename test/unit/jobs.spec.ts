@@ -13,17 +13,20 @@ import CID from 'cids'
 import parse from 'parse-duration'
 
 import { sequelizeFactory } from '../../src/sequelize'
-import { FINISHED_EVENT_NAME, Job, JobsManager } from '../../src/jobs-manager'
+import { BackoffPolicy, FINISHED_EVENT_NAME, Job, JobsManager, PROGRESS_EVENT_NAME } from '../../src/jobs-manager'
 import { randomHex } from 'web3-utils'
-import { PinJob } from '../../src/providers/ipfs'
-import { JobState, MessageCodesEnum } from '../../src/definitions'
+import { IpfsProvider, PinJob } from '../../src/providers/ipfs'
+import { BackoffJitter, JobPriority, JobState, MessageCodesEnum } from '../../src/definitions'
 import JobModel from '../../src/models/job.model'
-import { runAndAwaitFirstEvent } from '../../src/utils'
-import { HashExceedsSizeError } from '../../src/errors'
+import JobAttemptModel from '../../src/models/job-attempt.model'
+import { runAndAwaitFirstEvent, sleep } from '../../src/utils'
+import { HashExceedsSizeError, HashNotFoundError, InvalidCidError, IpfsUnreachableError, PinTimeoutError } from '../../src/errors'
 import * as channel from '../../src/communication'
+import * as throughput from '../../src/throughput'
 import Agreement from '../../src/models/agreement.model'
 import { mockAgreement } from '../fake-marketplace-service'
 import DirectAddressModel from '../../src/models/direct-address.model'
+import PinReferenceModel from '../../src/models/pin-reference.model'
 
 chai.use(sinonChai)
 chai.use(chaiAsPromised)
@@ -36,8 +39,8 @@ const AGREEMENT_REFERENCE = '0x123'
 class StubJob extends Job {
   public stub: Sinon.SinonStub
 
-  constructor () {
-    super(`testing job ${randomHex(10)}`, AGREEMENT_REFERENCE)
+  constructor (name = `testing job ${randomHex(10)}`) {
+    super(name, AGREEMENT_REFERENCE)
     this.stub = sinon.stub()
   }
 
@@ -115,6 +118,22 @@ describe('Jobs', function () {
       expect(job.stub).to.be.calledOnce()
     })
 
+    it('should emit the outcome even when its persisting fails', async () => {
+      const createStub = sinon.stub(JobAttemptModel, 'create').rejects(new Error('database is locked'))
+
+      try {
+        const finishedJob = new StubJob()
+        await expect(runAndAwaitFirstEvent(finishedJob, FINISHED_EVENT_NAME, () => { finishedJob.run() })).to.be.fulfilled()
+
+        const failedJob = new StubJob()
+        failedJob.stub.rejects(new Error('testing'))
+        await expect(runAndAwaitFirstEvent(failedJob, FINISHED_EVENT_NAME, () => { failedJob.run() })).to.be.rejectedWith('testing')
+        expect(createStub).to.be.calledTwice()
+      } finally {
+        createStub.restore()
+      }
+    })
+
     it('should mark as backedoff when retries', async () => {
       const job = new StubJob()
 
@@ -127,13 +146,15 @@ describe('Jobs', function () {
       expect(models[0].retry).to.be.null()
       expect(job.stub).to.be.calledOnce()
 
-      job.retry(1, 3)
+      const nextAttemptAt = new Date(Date.now() + 1000)
+      await job.retry(1, 3, nextAttemptAt)
 
       models = await JobModel.findAll({ where: { name: job.name } })
       expect(models).to.have.length(1)
       expect(models[0].name).to.eql(job.name)
       expect(models[0].state).to.eql(JobState.BACKOFF)
       expect(models[0].retry).to.eql('1/3')
+      expect(models[0].nextAttemptAt).to.eql(nextAttemptAt)
     })
   })
 
@@ -162,6 +183,269 @@ describe('Jobs', function () {
       expect(channelSpy).calledWith(MessageCodesEnum.I_HASH_PINNED, { hash: job.name, agreementReference: '0x123' })
     })
 
+    it('should enqueue a Job without waiting for it to finish', async () => {
+      const manager = new JobsManager()
+      const job = new StubJob()
+
+      let promiseResolve: () => void
+      job.stub.returns(new Promise<void>(resolve => { promiseResolve = resolve }))
+      const finishedPromise = new Promise(resolve => job.on(FINISHED_EVENT_NAME, resolve))
+
+      await manager.enqueue(job)
+
+      models = await JobModel.findAll({ where: { name: job.name } })
+      expect(models).to.have.length(1)
+      expect(models[0].state).to.not.eql(JobState.FINISHED)
+
+      promiseResolve!()
+      await finishedPromise
+      await sleep(50) // Lets the manager broadcast the result
+
+      models = await JobModel.findAll({ where: { name: job.name } })
+      expect(models[0].state).to.eql(JobState.FINISHED)
+      expect(channelSpy).calledWith(MessageCodesEnum.I_HASH_PINNED, { hash: job.name, agreementReference: '0x123' })
+    })
+
+    it('should record throughput of finished Job', async () => {
+      const progressStub = sinon.stub(channel, 'broadcastProgress').resolves()
+      const manager = new JobsManager()
+      const job = new StubJob()
+      job.stub.callsFake(async () => {
+        job.emit(PROGRESS_EVENT_NAME, { blocks: 1, bytes: 100, totalBytes: 200, percentage: 50, eta: 1 })
+        await sleep(100)
+        job.emit(PROGRESS_EVENT_NAME, { blocks: 2, bytes: 200, totalBytes: 200, percentage: 100, eta: 0 })
+      })
+
+      try {
+        await manager.run(job)
+      } finally {
+        progressStub.restore()
+      }
+
+      // Only the 100 bytes fetched between the first and the last progress are measured
+      const [model] = await JobModel.findAll({ where: { name: job.name } })
+      expect(model.throughput).to.be.within(100 / 0.2, 100 / 0.1)
+    })
+
+    it('should not record throughput of Job that finished after retry', async () => {
+      const progressStub = sinon.stub(channel, 'broadcastProgress').resolves()
+      const manager = new JobsManager({ retries: 2 })
+      const job = new StubJob()
+      job.stub.onFirstCall().rejects(new Error('testing'))
+      job.stub.onSecondCall().callsFake(async () => {
+        job.emit(PROGRESS_EVENT_NAME, { blocks: 1, bytes: 100, totalBytes: 200, percentage: 50, eta: 1 })
+        await sleep(50)
+        job.emit(PROGRESS_EVENT_NAME, { blocks: 2, bytes: 200, totalBytes: 200, percentage: 100, eta: 0 })
+      })
+
+      try {
+        await manager.run(job)
+      } finally {
+        progressStub.restore()
+      }
+
+      const [model] = await JobModel.findAll({ where: { name: job.name } })
+      expect(model.state).to.eql(JobState.FINISHED)
+      expect(model.throughput).to.be.null()
+    })
+
+    it('should finalize the Job once it has no tries left', async () => {
+      const manager = new JobsManager({ retries: 2 })
+      const job = new StubJob()
+      const finalizeSpy = sinon.spy(job, 'finalize')
+      job.stub.onFirstCall().callsFake(() => {
+        expect(finalizeSpy).not.to.be.called()
+        return Promise.reject(new Error('testing1'))
+      })
+      job.stub.onSecondCall().rejects(new Error('testing2'))
+
+      await expect(manager.run(job)).to.be.rejectedWith('testing2')
+
+      expect(job.stub).to.be.calledTwice()
+      expect(finalizeSpy).to.be.calledOnce()
+    })
+
+    it('should not reject enqueue when the Job fails', async () => {
+      const manager = new JobsManager({ retries: 1 })
+      const job = new StubJob()
+      job.stub.rejects(new Error('testing'))
+      const errorPromise = new Promise(resolve => job.on('error', resolve))
+
+      await expect(manager.enqueue(job)).to.be.fulfilled()
+      await errorPromise
+      await sleep(50) // Lets the manager broadcast the result
+
+      models = await JobModel.findAll({ where: { name: job.name } })
+      expect(models[0].state).to.eql(JobState.ERRORED)
+      expect(channelSpy).calledWith(MessageCodesEnum.E_GENERAL, { hash: job.name, agreementReference: '0x123', error: 'testing' })
+    })
+
+    it('should run at most configured number of Jobs at once', async () => {
+      const manager = new JobsManager({ concurrency: 2 })
+      const jobs = [new StubJob(), new StubJob(), new StubJob()]
+      const resolvers: Array<() => void> = []
+      jobs.forEach(job => job.stub.returns(new Promise<void>(resolve => resolvers.push(resolve))))
+
+      for (const job of jobs) {
+        await manager.enqueue(job)
+      }
+      await sleep(50)
+
+      expect(manager.runningCount).to.eql(2)
+      expect(manager.queuedCount).to.eql(1)
+      expect(jobs[2].stub).not.to.be.called()
+
+      resolvers[0]()
+      await sleep(50)
+
+      expect(manager.runningCount).to.eql(2)
+      expect(manager.queuedCount).to.eql(0)
+      expect(jobs[2].stub).to.be.calledOnce()
+
+      resolvers.slice(1).forEach(resolve => resolve())
+      await sleep(50)
+
+      expect(manager.runningCount).to.eql(0)
+      models = await JobModel.findAll({ where: { name: jobs.map(job => job.name) } })
+      models.forEach(model => expect(model.state).to.eql(JobState.FINISHED))
+    })
+
+    it('should execute Jobs with higher priority first', async () => {
+      const manager = new JobsManager({ concurrency: 1 })
+      const blockingJob = new StubJob()
+      let blockingResolve: () => void
+      blockingJob.stub.returns(new Promise<void>(resolve => { blockingResolve = resolve }))
+
+      const executionOrder: string[] = []
+      const lowJob = new StubJob()
+      const normalJob = new StubJob()
+      const secondNormalJob = new StubJob()
+      const highJob = new StubJob()
+      const jobs = [lowJob, normalJob, secondNormalJob, highJob]
+      jobs.forEach(job => job.stub.callsFake(() => { executionOrder.push(job.name) }))
+
+      await manager.enqueue(blockingJob)
+      await manager.enqueue(lowJob, JobPriority.LOW)
+      await manager.enqueue(normalJob)
+      await manager.enqueue(secondNormalJob, JobPriority.NORMAL)
+      await manager.enqueue(highJob, JobPriority.HIGH)
+      expect(manager.queuedCount).to.eql(4)
+
+      models = await JobModel.findAll({ where: { name: lowJob.name } })
+      expect(models[0].priority).to.eql(JobPriority.LOW)
+
+      blockingResolve!()
+      await sleep(100)
+
+      expect(executionOrder).to.eql([highJob.name, normalJob.name, secondNormalJob.name, lowJob.name])
+    })
+
+    it('should not enqueue Job that is already pending', async () => {
+      const manager = new JobsManager({ concurrency: 1 })
+      const job = new StubJob()
+      let promiseResolve: () => void
+      job.stub.returns(new Promise<void>(resolve => { promiseResolve = resolve }))
+
+      const duplicateJob = new StubJob(job.name)
+
+      await manager.enqueue(job)
+      await manager.enqueue(duplicateJob)
+
+      expect(manager.runningCount).to.eql(1)
+      expect(manager.queuedCount).to.eql(0)
+      expect(duplicateJob.entity.isNewRecord).to.be.true()
+
+      promiseResolve!()
+      await sleep(50)
+    })
+
+    it('should cancel queued and running Jobs of the Agreement', async () => {
+      const manager = new JobsManager({ concurrency: 1, retries: 3 })
+      const runningJob = new StubJob()
+      runningJob.stub.callsFake(() => new Promise<void>((resolve, reject) => {
+        runningJob.signal.addEventListener('abort', () => reject(new Error('aborted')))
+      }))
+      const queuedJob = new StubJob()
+
+      await manager.enqueue(runningJob)
+      await manager.enqueue(queuedJob)
+      await sleep(50)
+      expect(manager.runningCount).to.eql(1)
+      expect(manager.queuedCount).to.eql(1)
+      channelSpy.resetHistory()
+
+      await manager.cancel(AGREEMENT_REFERENCE)
+
+      expect(manager.runningCount).to.eql(0)
+      expect(manager.queuedCount).to.eql(0)
+      expect(runningJob.stub).to.be.calledOnce() // No retries
+      expect(queuedJob.stub).not.to.be.called()
+      expect(channelSpy).not.to.be.called()
+
+      models = await JobModel.findAll({ where: { name: [runningJob.name, queuedJob.name] } })
+      expect(models).to.have.length(2)
+      models.forEach(model => expect(model.state).to.eql(JobState.CANCELLED))
+    })
+
+    it('should cancel only Jobs of the given types', async () => {
+      const manager = new JobsManager({ concurrency: 1 })
+      const queuedJob = new StubJob()
+
+      await manager.enqueue(new StubJob())
+      await manager.enqueue(queuedJob)
+      await manager.cancel(AGREEMENT_REFERENCE, ['other type'])
+      await manager.idle()
+
+      expect(queuedJob.stub).to.be.calledOnce()
+      expect(queuedJob.state).to.eql(JobState.FINISHED)
+    })
+
+    it('should cancel Job which is backing off', async () => {
+      const manager = new JobsManager({ retries: 3, retryPolicy: { baseDelay: '1h' } })
+      const job = new StubJob()
+      job.stub.rejects(new Error('testing'))
+
+      await manager.enqueue(job)
+      await sleep(50)
+      expect(manager.runningCount).to.eql(1)
+
+      await manager.cancel(AGREEMENT_REFERENCE)
+
+      expect(manager.runningCount).to.eql(0)
+      expect(job.stub).to.be.calledOnce()
+    })
+
+    it('should interrupt stale Jobs', async () => {
+      const manager = new JobsManager({ retries: 3 })
+      const type = `stale ${randomHex(4)}`
+      await JobModel.bulkCreate([
+        { name: 'running', type, agreementReference: AGREEMENT_REFERENCE, state: JobState.RUNNING, retry: '1/3' },
+        { name: 'backoff', type, agreementReference: AGREEMENT_REFERENCE, state: JobState.BACKOFF, retry: '2/3' },
+        { name: 'created', type, agreementReference: AGREEMENT_REFERENCE, state: JobState.CREATED },
+        { name: 'finished', type, agreementReference: AGREEMENT_REFERENCE, state: JobState.FINISHED },
+        { name: 'other-type', type: 'other', agreementReference: AGREEMENT_REFERENCE, state: JobState.RUNNING }
+      ])
+
+      const staleJobs = await manager.interruptStaleJobs(type)
+
+      expect(staleJobs.map(entity => entity.name)).to.have.members(['running', 'backoff', 'created'])
+      expect(staleJobs.map(entity => manager.remainingRetries(entity))).to.have.members([2, 1, 3])
+
+      models = await JobModel.findAll({ where: { type } })
+      expect(models.filter(model => model.state === JobState.INTERRUPTED)).to.have.length(3)
+      expect(await JobModel.count({ where: { type: 'other', state: JobState.RUNNING } })).to.eql(1)
+    })
+
+    it('should use retries of the Job over the configured ones', async () => {
+      const manager = new JobsManager({ retries: 3 })
+      const job = new StubJob()
+      job.retries = 1
+      job.stub.rejects(new Error('testing'))
+
+      await expect(manager.run(job)).to.be.rejectedWith('testing')
+      expect(job.stub).to.be.calledOnce()
+    })
+
     it('should retry failed Job', async () => {
       const manager = new JobsManager({ retries: 3 })
       const job = new StubJob()
@@ -182,6 +466,26 @@ describe('Jobs', function () {
       expect(job.stub).to.be.calledThrice()
     })
 
+    it('should record every attempt of the Job', async () => {
+      const manager = new JobsManager({ retries: 3 })
+      const job = new StubJob()
+      job.stub.onCall(0).rejects(new Error('testing'))
+      job.stub.onCall(1).callsFake(() => {
+        job.emit(PROGRESS_EVENT_NAME, { blocks: 1, bytes: 100, totalBytes: 100, percentage: 100, eta: 0 })
+        return Promise.resolve()
+      })
+
+      await manager.run(job)
+
+      const [model] = await JobModel.findAll({ where: { name: job.name }, include: [JobAttemptModel] })
+      expect(model.tries).to.eql(2)
+      const attempts = model.attempts.sort((a, b) => a.attempt - b.attempt)
+      expect(attempts).to.have.length(2)
+      expect(attempts[0]).to.include({ attempt: 1, state: JobState.ERRORED, errorClass: 'Error', errorMessage: 'testing', bytes: 0 })
+      expect(attempts[1]).to.include({ attempt: 2, state: JobState.FINISHED, errorClass: null, bytes: 100 })
+      expect(attempts[1].duration).to.eql(attempts[1].finish.getTime() - attempts[1].start.getTime())
+    })
+
     it('should throw if all retries fails', async () => {
       const manager = new JobsManager({ retries: 3 })
       const job = new StubJob()
@@ -229,6 +533,7 @@ describe('Jobs', function () {
       })
       expect(channelSpy.getCall(5)).calledWith(MessageCodesEnum.E_GENERAL, {
         hash: job.name,
+        agreementReference: '0x123',
         error: 'testing3'
       })
     })
@@ -271,9 +576,105 @@ describe('Jobs', function () {
         hash: job.name,
         size: new BigNumber(10),
         expectedSize: new BigNumber(9),
+        error: 'testing2',
         agreementReference: '0x123'
       })
     })
+
+    it('should report classified error with its code and retry it only later', async () => {
+      const manager = new JobsManager({ retries: 3 })
+      const job = new StubJob()
+      job.stub.rejects(new HashNotFoundError('Fetching size timed out!'))
+
+      await expect(manager.run(job)).to.be.rejectedWith(HashNotFoundError)
+
+      models = await JobModel.findAll({ where: { name: job.name } })
+      expect(models[0].state).to.eql(JobState.ERRORED)
+      expect(models[0].errorCode).to.eql(HashNotFoundError.code)
+      expect(job.stub).to.be.calledOnce()
+      expect(channelSpy.lastCall).calledWith(MessageCodesEnum.E_HASH_NOT_FOUND, {
+        hash: job.name,
+        agreementReference: '0x123',
+        error: 'Fetching size timed out!'
+      })
+    })
+  })
+
+  describe('Backoff policy', function () {
+    let randomStub: Sinon.SinonStub
+
+    beforeEach(() => {
+      randomStub = sinon.stub(Math, 'random').returns(0.5)
+    })
+
+    afterEach(() => {
+      randomStub.restore()
+    })
+
+    it('should grow delays exponentially up to the max delay', () => {
+      const policy = new BackoffPolicy().extend({ baseDelay: '1s', multiplier: 3, maxDelay: '5s' })
+
+      expect([1, 2, 3, 4].map(retry => policy.getDelay(retry))).to.eql([1000, 3000, 5000, 5000])
+    })
+
+    it('should randomize delays with full jitter', () => {
+      const policy = new BackoffPolicy(1000, 2, 3000, BackoffJitter.FULL)
+
+      expect(policy.getDelay(2)).to.eql(1000)
+      expect(policy.getDelay(5)).to.eql(1500)
+    })
+
+    it('should randomize delays with decorrelated jitter', () => {
+      const policy = new BackoffPolicy(1000, 3, 4000, BackoffJitter.DECORRELATED)
+
+      expect(policy.getDelay(1)).to.eql(1000)
+      expect(policy.getDelay(2, 1000)).to.eql(2000)
+      expect(policy.getDelay(3, 2000)).to.eql(3500)
+      expect(policy.getDelay(4, 3500)).to.eql(4000)
+    })
+
+    it('should reject invalid options', () => {
+      expect(() => new BackoffPolicy().extend({ baseDelay: 'never' })).to.throw('Invalid jobs.retryPolicy.baseDelay value')
+      // @ts-ignore: testing invalid value
+      expect(() => new BackoffPolicy().extend({ jitter: 'some' })).to.throw('Invalid jobs.retryPolicy.jitter value some')
+    })
+
+    it('should use overrides for configured Job types', () => {
+      const manager = new JobsManager({
+        backoffTime: 100,
+        exponentialBackoff: true,
+        retryPolicy: { maxDelay: '1s', overrides: { special: { baseDelay: '2s', jitter: BackoffJitter.FULL } } }
+      })
+
+      expect(manager.getBackoffPolicy('other')).to.include({ baseDelay: 100, multiplier: 2, maxDelay: 1000, jitter: BackoffJitter.NONE })
+      expect(manager.getBackoffPolicy('special')).to.include({ baseDelay: 2000, multiplier: 2, maxDelay: 1000, jitter: BackoffJitter.FULL })
+    })
+
+    it('should map deprecated backoff options over the retry policy', () => {
+      const manager = new JobsManager({
+        backoffTime: 100,
+        exponentialBackoff: false,
+        retryPolicy: { baseDelay: '5s', multiplier: 2, maxDelay: '1m' }
+      })
+
+      expect(manager.getBackoffPolicy()).to.include({ baseDelay: 100, multiplier: 1, maxDelay: 60000 })
+      expect(new JobsManager({ retryPolicy: { baseDelay: '5s', multiplier: 2 } }).getBackoffPolicy())
+        .to.include({ baseDelay: 5000, multiplier: 2 })
+    })
+
+    it('should persist the next attempt of backing off Job', async () => {
+      const manager = new JobsManager({ retries: 2, retryPolicy: { baseDelay: '50ms' } })
+      const job = new StubJob()
+      job.stub.onCall(0).rejects(new Error('testing'))
+      job.stub.onCall(1).resolves()
+
+      const start = Date.now()
+      await manager.run(job)
+
+      const model = await JobModel.findOne({ where: { name: job.name } }) as JobModel
+      expect(model.state).to.eql(JobState.FINISHED)
+      expect(model.nextAttemptAt?.getTime()).to.be.within(start + 50, model.start.getTime())
+    })
   })
 
   describe('Pinning Job', function () {
@@ -286,6 +687,8 @@ describe('Jobs', function () {
     const ipfsStub = {
       object: { stat: sinon.stub() },
       dag: { stat: sinon.stub() },
+      block: { stat: sinon.stub() },
+      refs: sinon.stub(),
       pin: { add: sinon.stub(), rm: sinon.stub() },
       dht: { findPeer: sinon.stub() },
       swarm: {
@@ -299,6 +702,8 @@ describe('Jobs', function () {
       channelSpy.resetHistory()
       ipfsStub.object.stat.returns(Promise.resolve({ CumulativeSize: 1 }))
       ipfsStub.dag.stat.returns(Promise.resolve({ Size: 1 }))
+      ipfsStub.block.stat.returns(Promise.resolve({ size: 1 }))
+      ipfsStub.refs.callsFake(async function * () { yield * [] })
       ipfsStub.pin.add.returns(Promise.resolve())
       ipfsStub.pin.rm.returns(Promise.resolve())
       ipfsStub.dht.findPeer.returns({ id: fakePeerId, addrs: [multiaddr(fakeNodeAddress)] })
@@ -308,6 +713,8 @@ describe('Jobs', function () {
     afterEach(() => {
       ipfsStub.object.stat.reset()
       ipfsStub.dag.stat.reset()
+      ipfsStub.block.stat.reset()
+      ipfsStub.refs.reset()
       ipfsStub.pin.add.reset()
       ipfsStub.pin.rm.reset()
       ipfsStub.dht.findPeer.reset()
@@ -322,13 +729,94 @@ describe('Jobs', function () {
       const job = new PinJob(ipfsStub as unknown as IpfsClient, fakeHash, fakeSize, fakeAgreementReference)
       await job._run()
 
-      expect(ipfsStub.object.stat.calledWith(new CID(hash), { timeout: config.get<number | string>('ipfs.sizeFetchTimeout') })).to.be.true()
-      expect(ipfsStub.dag.stat.calledWith(new CID(hash), { timeout: parse(config.get<string>('ipfs.sizeFetchTimeout')) })).to.be.true()
-      expect(ipfsStub.dht.findPeer.calledWith(new CID(fakePeerId))).to.be.true()
-      expect(ipfsStub.swarm.connect.calledWith(fakeAddresses)).to.be.true()
+      expect(ipfsStub.object.stat.calledWith(new CID(hash), { timeout: config.get<number | string>('ipfs.sizeFetchTimeout'), signal: job.signal })).to.be.true()
+      expect(ipfsStub.dag.stat.calledWith(new CID(hash), { timeout: parse(config.get<string>('ipfs.sizeFetchTimeout')), signal: job.signal })).to.be.true()
+      expect(ipfsStub.dht.findPeer.calledWith(new CID(fakePeerId), { signal: job.signal })).to.be.true()
+      expect(ipfsStub.swarm.connect.calledWith(fakeAddresses, { signal: job.signal })).to.be.true()
+      expect(ipfsStub.refs.calledWith(new CID(hash))).to.be.true()
       expect(ipfsStub.pin.add.calledWith(new CID(hash))).to.be.true()
-      expect(ipfsStub.swarm.connect.calledWith(fakeAddresses)).to.be.true()
+      expect(ipfsStub.swarm.disconnect.calledWith(fakeAddresses)).to.be.true()
+    })
+
+    it('should try all announced peers and keep them until pinning finishes', async () => {
+      const otherPeerId = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco'
+      await DirectAddressModel.create({ agreementReference: fakeAgreementReference, peerId: otherPeerId })
+      await DirectAddressModel.create({ agreementReference: fakeAgreementReference, peerId: fakePeerId })
+      ipfsStub.dht.findPeer.withArgs(new CID(otherPeerId)).rejects(new Error('routing: not found'))
+      ipfsStub.pin.add.onFirstCall().rejects(new Error('timeout'))
+
+      const job = new PinJob(ipfsStub as unknown as IpfsClient, fakeHash, fakeSize, fakeAgreementReference)
+      await expect(job._run()).to.be.rejectedWith('timeout')
+
+      expect(ipfsStub.dht.findPeer.firstCall).to.be.calledWith(new CID(otherPeerId))
+      expect(ipfsStub.dht.findPeer.secondCall).to.be.calledWith(new CID(fakePeerId))
+      expect(ipfsStub.swarm.connect).to.be.calledOnceWith(fakeAddresses)
+      expect(await DirectAddressModel.count()).to.eql(2)
+
+      // Retry
+      await job._run()
+
+      expect(ipfsStub.dht.findPeer).to.have.callCount(4)
+      expect(ipfsStub.swarm.connect).to.be.calledTwice()
+      expect(await DirectAddressModel.count()).to.eql(2)
+
+      await job.finalize()
+      expect(await DirectAddressModel.count()).to.eql(0)
+    })
+
+    it('should connect directly to announced multiaddrs without DHT lookup', async () => {
+      await DirectAddressModel.create({ agreementReference: fakeAgreementReference, peerId: fakePeerId, multiaddrs: fakeAddresses.map(addr => addr.toString()) })
+
+      const job = new PinJob(ipfsStub as unknown as IpfsClient, fakeHash, fakeSize, fakeAgreementReference)
+      await job._run()
+
+      expect(ipfsStub.dht.findPeer).not.to.be.called()
+      expect(ipfsStub.swarm.connect).to.be.calledOnceWith(fakeAddresses)
     })
+
+    it('should resume unfinished PinJobs of active Agreements', async () => {
+      await Agreement.bulkCreate([
+        mockAgreement({ agreementReference: 'active', dataReference: fakeHash, availableFunds: 1000000 }),
+        mockAgreement({ agreementReference: 'inactive', dataReference: fakeHash, isActive: false })
+      ])
+      await JobModel.bulkCreate([
+        { name: fakeHash, type: 'ipfs - pin', agreementReference: 'active', state: JobState.BACKOFF, retry: '1/3', priority: JobPriority.LOW },
+        { name: fakeHash, type: 'ipfs - pin', agreementReference: 'inactive', state: JobState.RUNNING }
+      ])
+
+      const manager = new JobsManager({ retries: 3 })
+      const enqueueStub = sinon.stub(manager, 'enqueue').resolves()
+      const provider = new IpfsProvider(manager, ipfsStub as unknown as IpfsClient)
+
+      await provider.resume()
+
+      expect(enqueueStub).to.be.calledOnce()
+      const [job, priority] = enqueueStub.firstCall.args
+      expect(job).to.be.instanceOf(PinJob)
+      expect(job.name).to.eql(fakeHash)
+      expect(job.agreementReference).to.eql('active')
+      expect(job.retries).to.eql(2)
+      expect(priority).to.eql(JobPriority.LOW)
+      expect(await JobModel.count({ where: { state: JobState.INTERRUPTED } })).to.eql(2)
+    })
+
+    it('should classify errors of IPFS node', async () => {
+      const timeoutError = Object.assign(new Error('request timed out'), { name: 'TimeoutError' })
+      const connectionError = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:5001'), { name: 'FetchError', code: 'ECONNREFUSED' })
+      const createJob = (hash = fakeHash): PinJob => new PinJob(ipfsStub as unknown as IpfsClient, hash, fakeSize, fakeAgreementReference)
+
+      await expect(createJob('/ipfs/invalid')._run()).to.be.rejectedWith(InvalidCidError)
+
+      ipfsStub.pin.add.rejects(timeoutError)
+      await expect(createJob()._run()).to.be.rejectedWith(PinTimeoutError)
+
+      ipfsStub.object.stat.rejects(timeoutError)
+      await expect(createJob()._run()).to.be.rejectedWith(HashNotFoundError)
+
+      ipfsStub.object.stat.rejects(connectionError)
+      await expect(createJob()._run()).to.be.rejectedWith(IpfsUnreachableError)
+    })
+
     it('meta size exceed error', async () => {
       ipfsStub.object.stat.returns(Promise.resolve({ CumulativeSize: 10000000000000 }))
 
@@ -343,6 +831,87 @@ describe('Jobs', function () {
       expect(ipfsStub.swarm.connect.called).to.be.false()
       expect(ipfsStub.swarm.disconnect.called).to.be.false()
     })
+    it('fetched size exceed error should abort fetching', async () => {
+      const hash = fakeHash.replace('/ipfs/', '')
+      await DirectAddressModel.create({ agreementReference: fakeAgreementReference, peerId: fakePeerId })
+      ipfsStub.object.stat.returns(Promise.resolve({ CumulativeSize: 1 })) // Lying metadata
+      ipfsStub.block.stat.returns(Promise.resolve({ size: 1024 * 1024 })) // 1 MB blocks
+      ipfsStub.refs.callsFake(async function * () {
+        for (let i = 0; i < 20; i++) {
+          yield { ref: hash }
+        }
+      })
+
+      const job = new PinJob(ipfsStub as unknown as IpfsClient, fakeHash, fakeSize, fakeAgreementReference)
+
+      const error = await job._run().catch(e => e)
+      expect(error).to.be.instanceOf(HashExceedsSizeError)
+      expect(error.currentSize).to.eql(new BigNumber(11))
+      expect(ipfsStub.block.stat.callCount).to.eql(11) // Root and 10 more blocks
+      expect(ipfsStub.pin.add.called).to.be.false()
+      expect(ipfsStub.pin.rm.called).to.be.false()
+      expect(ipfsStub.swarm.disconnect.calledWith(fakeAddresses)).to.be.true()
+    })
+    it('should emit progress of fetching', async () => {
+      const hash = fakeHash.replace('/ipfs/', '')
+      ipfsStub.object.stat.returns(Promise.resolve({ CumulativeSize: 4 * 1024 * 1024 }))
+      ipfsStub.block.stat.returns(Promise.resolve({ size: 1024 * 1024 }))
+      ipfsStub.refs.callsFake(async function * () {
+        yield { ref: hash }
+        yield { ref: hash }
+        yield { ref: hash }
+      })
+      const progressSpy = sinon.spy()
+
+      const job = new PinJob(ipfsStub as unknown as IpfsClient, fakeHash, fakeSize, fakeAgreementReference)
+      job.on(PROGRESS_EVENT_NAME, progressSpy)
+      await job._run()
+
+      expect(progressSpy).to.have.callCount(4)
+      expect(progressSpy.firstCall.args[0]).to.include({ blocks: 1, bytes: 1024 * 1024, totalBytes: 4 * 1024 * 1024, percentage: 25 })
+      expect(progressSpy.lastCall.args[0]).to.include({ blocks: 4, bytes: 4 * 1024 * 1024, percentage: 100, eta: 0 })
+    })
+    it('should time out fetching that does not progress', async () => {
+      const estimateStub = sinon.stub(throughput, 'estimateTimeout').resolves(50)
+      ipfsStub.block.stat.callsFake((cid: CID, { signal }: { signal: AbortSignal }) => new Promise((resolve, reject) => {
+        signal.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })))
+      }))
+
+      const job = new PinJob(ipfsStub as unknown as IpfsClient, fakeHash, fakeSize, fakeAgreementReference)
+
+      try {
+        await expect(job._run()).to.be.rejectedWith(PinTimeoutError)
+        expect(ipfsStub.pin.add.called).to.be.false()
+      } finally {
+        estimateStub.restore()
+      }
+    })
+    it('should extend the fetching deadline while the blocks keep arriving', async () => {
+      const hash = fakeHash.replace('/ipfs/', '')
+      const estimateStub = sinon.stub(throughput, 'estimateTimeout').resolves(50)
+      // @ts-ignore: Config is not typed
+      const originalMinTimeout = config.ipfs.pinTimeout.minTimeout
+      // @ts-ignore: Config is not typed
+      config.ipfs.pinTimeout.minTimeout = '40ms'
+      ipfsStub.block.stat.callsFake(() => sleep(30, { size: 1 }))
+      ipfsStub.refs.callsFake(async function * () {
+        for (let i = 0; i < 4; i++) {
+          yield { ref: hash }
+        }
+      })
+
+      const job = new PinJob(ipfsStub as unknown as IpfsClient, fakeHash, fakeSize, fakeAgreementReference)
+
+      try {
+        await job._run()
+        expect(ipfsStub.block.stat.callCount).to.eql(5)
+        expect(ipfsStub.pin.add.called).to.be.true()
+      } finally {
+        estimateStub.restore()
+        // @ts-ignore: Config is not typed
+        config.ipfs.pinTimeout.minTimeout = originalMinTimeout
+      }
+    })
     it('actual size exceed error', async () => {
       ipfsStub.dag.stat.returns(Promise.resolve({ Size: 10000000000000 }))
 
@@ -360,5 +929,18 @@ describe('Jobs', function () {
       expect(ipfsStub.swarm.connect.called).to.be.false()
       expect(ipfsStub.swarm.disconnect.called).to.be.false()
     })
+    it('actual size exceed error should keep data referenced by other Agreement', async () => {
+      ipfsStub.dag.stat.returns(Promise.resolve({ Size: 10000000000000 }))
+      await PinReferenceModel.bulkCreate([
+        { dataReference: fakeHash, agreementReference: fakeAgreementReference },
+        { dataReference: fakeHash, agreementReference: 'otherReference' }
+      ])
+
+      const job = new PinJob(ipfsStub as unknown as IpfsClient, fakeHash, fakeSize, fakeAgreementReference)
+
+      await expect(job._run()).eventually.be.rejectedWith(HashExceedsSizeError)
+      expect(ipfsStub.pin.rm.called).to.be.false()
+      expect(await PinReferenceModel.count()).to.eql(1)
+    })
   })
 })
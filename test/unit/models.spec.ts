@@ -5,6 +5,7 @@ import Sequelize from 'sequelize'
 
 import { sequelizeFactory } from '../../src/sequelize'
 import Agreement from '../../src/models/agreement.model'
+import { AgreementStatus } from '../../src/definitions'
 
 chai.use(sinonChai)
 const expect = chai.expect
@@ -253,9 +254,46 @@ const AGREEMENT_TEST_SCHEMA = [
         new BigNumber(3600 * 0.3)
       ]
     ]
+  },
+  {
+    fn: 'status',
+    cases: [
+      [{ isActive: true }, AgreementStatus.ACTIVE],
+      [{ isActive: false, retainedUntil: new Date(Date.now() + hour) }, AgreementStatus.INACTIVE_RETAINED],
+      [{ isActive: false, retainedUntil: null }, AgreementStatus.INACTIVE]
+    ]
   }
 ]
 describe('Models', () => {
-  before(() => sequelizeFactory())
+  let sequelize: Sequelize.Sequelize
+
+  before(async () => {
+    sequelize = await sequelizeFactory()
+  })
   describe('Agreement', () => generateModelGettersTests(AGREEMENT_TEST_SCHEMA, agreementFactory))
+
+  describe('Agreement funds exhaustion', () => {
+    const lastPayout = new Date(Date.now() - 0.5 * hour)
+
+    beforeEach(() => sequelize.sync({ force: true }))
+
+    it('should compute when the prepaid periods elapse', () => {
+      const agreement = agreementFactory({ availableFunds: 250, billingPeriod: toSecond(hour), lastPayout })
+      expect(agreement.computeFundsExhaustedAt()).to.eql(new Date(lastPayout.getTime() + 2 * hour))
+
+      expect(agreementFactory({ billingPrice: 0 }).computeFundsExhaustedAt()).to.eql(null)
+    })
+
+    it('should persist the exhaustion time whenever the funds change', async () => {
+      const agreement = await Agreement.create(agreementFactory({ billingPeriod: toSecond(hour), lastPayout }).toJSON())
+      expect((await Agreement.findByPk('ref'))?.fundsExhaustedAt).to.eql(new Date(lastPayout.getTime() + hour))
+
+      agreement.availableFunds = new BigNumber(300)
+      await agreement.save()
+      expect((await Agreement.findByPk('ref'))?.fundsExhaustedAt).to.eql(new Date(lastPayout.getTime() + 3 * hour))
+
+      await Agreement.upsert({ ...agreementFactory({ billingPeriod: toSecond(hour), lastPayout }).toJSON(), availableFunds: 500 })
+      expect((await Agreement.findByPk('ref'))?.fundsExhaustedAt).to.eql(new Date(lastPayout.getTime() + 5 * hour))
+    })
+  })
 })
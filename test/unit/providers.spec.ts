@@ -0,0 +1,341 @@
+import chai from 'chai'
+import dirtyChai from 'dirty-chai'
+import chaiAsPromised from 'chai-as-promised'
+import sinonChai from 'sinon-chai'
+import sinon from 'sinon'
+import type Sinon from 'sinon'
+import BigNumber from 'bignumber.js'
+import ipfsClient from 'ipfs-http-client'
+import { Sequelize } from 'sequelize-typescript'
+import { getObject } from 'sequelize-store'
+
+import { sequelizeFactory } from '../../src/sequelize'
+import { ProviderManager, UNPIN_JOB_TYPE, UnpinJob } from '../../src/providers'
+import { IpfsProvider } from '../../src/providers/ipfs'
+import { JobsManager } from '../../src/jobs-manager'
+import PinReferenceModel from '../../src/models/pin-reference.model'
+import Agreement from '../../src/models/agreement.model'
+import JobModel from '../../src/models/job.model'
+import { initStore } from '../../src/store'
+import { JobPriority, JobState, MessageCodesEnum, Provider, ProviderCapability } from '../../src/definitions'
+import { NotPinnedError } from '../../src/errors'
+import * as channel from '../../src/communication'
+import { mockAgreement } from '../fake-marketplace-service'
+
+chai.use(sinonChai)
+chai.use(chaiAsPromised)
+chai.use(dirtyChai)
+const expect = chai.expect
+type IpfsClient = ReturnType<typeof ipfsClient>
+
+const HASH = '/ipfs/QmV52RowihjoLGa4bAbYfFSMaXB6neuqCPZsZtvZjZ7xL7'
+
+describe('Providers', function () {
+  let sequelize: Sequelize
+  let manager: ProviderManager
+  let ipfs: IpfsProvider
+  let pinStub: Sinon.SinonStub
+  let unpinStub: Sinon.SinonStub
+  let channelSpy: Sinon.SinonStub
+  let jobsManager: JobsManager
+
+  before(async () => {
+    sequelize = await sequelizeFactory()
+    await initStore(sequelize)
+  })
+
+  beforeEach(async () => {
+    await sequelize.sync({ force: true })
+    delete getObject().totalCapacity
+    channelSpy = sinon.stub(channel, 'broadcast')
+
+    jobsManager = new JobsManager()
+    ipfs = new IpfsProvider(jobsManager, {} as IpfsClient)
+    pinStub = sinon.stub(ipfs, 'pin').resolves()
+    unpinStub = sinon.stub(ipfs, 'unpin').resolves()
+
+    manager = new ProviderManager(jobsManager)
+    manager.register(ipfs)
+  })
+
+  afterEach(() => {
+    sinon.restore()
+  })
+
+  describe('Pin references', () => {
+    beforeEach(async () => {
+      await Agreement.bulkCreate([
+        mockAgreement({ agreementReference: 'agreement1', dataReference: HASH }),
+        mockAgreement({ agreementReference: 'agreement2', dataReference: HASH })
+      ])
+    })
+
+    it('should record reference of Agreement when pinning', async () => {
+      await manager.pin(HASH, new BigNumber(10), 'agreement1')
+      await manager.pin(HASH, new BigNumber(10), 'agreement1') // Repeated pinning, eq. precache
+
+      expect(pinStub).to.be.calledTwice()
+      const references = await PinReferenceModel.findAll()
+      expect(references).to.have.length(1)
+      expect(references[0].dataReference).to.eql(HASH)
+      expect(references[0].agreementReference).to.eql('agreement1')
+    })
+
+    it('should unpin only when last Agreement referencing the hash goes away', async () => {
+      await manager.pin(HASH, new BigNumber(10), 'agreement1')
+      await manager.pin(HASH, new BigNumber(10), 'agreement2')
+
+      await manager.unpin(HASH, 'agreement1')
+      await jobsManager.idle()
+      expect(unpinStub).not.to.be.called()
+      expect(await PinReferenceModel.count()).to.eql(1)
+
+      await manager.unpin(HASH, 'agreement2')
+      await jobsManager.idle()
+      expect(unpinStub).to.be.calledOnceWith(HASH)
+      expect(await PinReferenceModel.count()).to.eql(0)
+    })
+
+    it('should unpin hash without any recorded reference', async () => {
+      await manager.unpin(HASH, 'agreement1')
+      await jobsManager.idle()
+
+      expect(unpinStub).to.be.calledOnceWith(HASH)
+    })
+  })
+
+  describe('Unpinning', () => {
+    beforeEach(async () => {
+      await Agreement.create(mockAgreement({ agreementReference: 'agreement1', dataReference: HASH }))
+    })
+
+    it('should retry failed unpinning as UnpinJob', async () => {
+      unpinStub.onFirstCall().rejects(new Error('IPFS daemon is not reachable'))
+
+      await manager.unpin(HASH, 'agreement1')
+      await jobsManager.idle()
+
+      expect(unpinStub).to.be.calledTwice()
+      const [job] = await JobModel.findAll()
+      expect(job.type).to.eql(UNPIN_JOB_TYPE)
+      expect(job.state).to.eql(JobState.FINISHED)
+      expect(job.retry).to.eql('1/3')
+      expect(channelSpy).not.to.be.called()
+    })
+
+    it('should treat not pinned hash as unpinned', async () => {
+      unpinStub.rejects(new NotPinnedError('not pinned'))
+
+      await manager.unpin(HASH, 'agreement1')
+      await jobsManager.idle()
+
+      expect(unpinStub).to.be.calledOnce()
+      expect((await JobModel.findOne() as JobModel).state).to.eql(JobState.FINISHED)
+    })
+
+    it('should not unpin hash that was referenced again before the UnpinJob ran', async () => {
+      await PinReferenceModel.create({ agreementReference: 'agreement2', dataReference: HASH })
+
+      await new UnpinJob(ipfs, HASH, 'agreement1')._run()
+
+      expect(unpinStub).not.to.be.called()
+    })
+
+    it('should queue UnpinJob before the pinning Jobs', async () => {
+      await manager.unpin(HASH, 'agreement1')
+      await jobsManager.idle()
+
+      expect((await JobModel.findOne() as JobModel).priority).to.eql(JobPriority.HIGH)
+    })
+
+    it('should not cancel unpinning when the pinning of the Agreement is cancelled', async () => {
+      let finishUnpin: () => void
+      const unpinStarted = new Promise<void>(resolve => {
+        unpinStub.callsFake(() => {
+          resolve()
+          return new Promise<void>(resolve => { finishUnpin = resolve })
+        })
+      })
+
+      await manager.unpin(HASH, 'agreement1')
+      await manager.cancel('agreement1')
+      await unpinStarted
+      finishUnpin!()
+      await jobsManager.idle()
+
+      expect((await JobModel.findOne() as JobModel).state).to.eql(JobState.FINISHED)
+    })
+
+    it('should re-attempt unpinning whose UnpinJob failed without tries left', async () => {
+      const otherHash = '/ipfs/QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco'
+      await JobModel.bulkCreate([
+        { name: HASH, agreementReference: 'agreement1', type: UNPIN_JOB_TYPE, state: JobState.ERRORED },
+        { name: otherHash, agreementReference: 'agreement1', type: UNPIN_JOB_TYPE, state: JobState.ERRORED },
+        { name: otherHash, agreementReference: 'agreement1', type: UNPIN_JOB_TYPE, state: JobState.FINISHED },
+        { name: '/unknown/123', agreementReference: 'agreement1', type: UNPIN_JOB_TYPE, state: JobState.ERRORED }
+      ])
+
+      await manager.retryUnpinning()
+      await jobsManager.idle()
+
+      expect(unpinStub).to.be.calledOnceWith(HASH)
+      const [job] = await JobModel.findAll({ order: [['id', 'DESC']] })
+      expect(job.name).to.eql(HASH)
+      expect(job.state).to.eql(JobState.FINISHED)
+    })
+
+    it('should resume interrupted UnpinJobs', async () => {
+      await JobModel.create({ name: HASH, agreementReference: 'agreement1', type: UNPIN_JOB_TYPE, state: JobState.BACKOFF, retry: '1/3' })
+
+      await manager.resume()
+      await jobsManager.idle()
+
+      expect(unpinStub).to.be.calledOnceWith(HASH)
+      const jobs = await JobModel.findAll({ order: [['id', 'ASC']] })
+      expect(jobs.map(job => job.state)).to.eql([JobState.INTERRUPTED, JobState.FINISHED])
+    })
+  })
+
+  describe('Registry', () => {
+    const createProvider = (prefixes: string[], capabilities: ProviderCapability[] = []): Provider => ({
+      prefixes,
+      capabilities,
+      pin: sinon.stub().resolves(),
+      unpin: sinon.stub().resolves(),
+      cancel: sinon.stub().resolves(),
+      isPinned: sinon.stub().resolves(true)
+    })
+
+    it('should dispatch to provider by the prefix of hash', async () => {
+      const provider = createProvider(['/test/', '/other/'])
+      manager.register(provider)
+
+      await manager.pin('/test/123', new BigNumber(10), 'agreement1')
+      await manager.pin('/other/123', new BigNumber(10), 'agreement2')
+      await manager.pin(HASH, new BigNumber(10), 'agreement3')
+
+      expect(provider.pin).to.be.calledTwice()
+      expect(provider.pin).to.be.calledWith('/test/123')
+      expect(provider.pin).to.be.calledWith('/other/123')
+      expect(pinStub).to.be.calledOnceWith(HASH)
+
+      await Agreement.create(mockAgreement({ agreementReference: 'agreement1', dataReference: '/test/123' }))
+      await manager.unpin('/test/123', 'agreement1')
+      await jobsManager.idle()
+      expect(provider.unpin).to.be.calledOnceWith('/test/123')
+    })
+
+    it('should prefer the longest matching prefix', async () => {
+      const provider = createProvider(['/ipfs/special/'])
+      manager.register(provider)
+
+      await manager.pin('/ipfs/special/123', new BigNumber(10), 'agreement1')
+
+      expect(provider.pin).to.be.calledOnce()
+      expect(pinStub).not.to.be.called()
+    })
+
+    it('should not allow registering prefix twice', () => {
+      expect(() => manager.register(createProvider(['/ipfs/']))).to.throw('Provider for prefix /ipfs/ is already registered!')
+    })
+
+    it('should call optional features only on capable providers', async () => {
+      const capableProvider = createProvider(['/capable/'], [ProviderCapability.CANCEL, ProviderCapability.PIN_STATUS])
+      const provider = createProvider(['/test/'])
+      manager.register(capableProvider)
+      manager.register(provider)
+      const cancelStub = sinon.stub(ipfs, 'cancel').resolves()
+
+      await manager.cancel('agreement1')
+
+      expect(cancelStub).to.be.calledOnceWith('agreement1')
+      expect(capableProvider.cancel).to.be.calledOnceWith('agreement1')
+      expect(provider.cancel).not.to.be.called()
+
+      expect(await manager.isPinned('/capable/123')).to.be.true()
+      expect(await manager.isPinned('/test/123')).to.be.undefined()
+      expect(provider.isPinned).not.to.be.called()
+    })
+
+    it('should broadcast error for unknown type of hash', async () => {
+      await manager.pin('/unknown/123', new BigNumber(10), 'agreement1')
+
+      expect(channelSpy).to.be.calledOnceWith(MessageCodesEnum.E_UNKNOWN_PROVIDER, {
+        agreementReference: 'agreement1',
+        hash: '/unknown/123',
+        error: 'Unknown type of hash /unknown/123'
+      })
+      expect(pinStub).not.to.be.called()
+      expect(await PinReferenceModel.count()).to.eql(0)
+
+      await expect(manager.unpin('/unknown/123', 'agreement1')).to.be.fulfilled()
+      expect(await manager.isPinned('/unknown/123')).to.be.undefined()
+    })
+
+    it('should skip resuming UnpinJobs of unknown type of hash', async () => {
+      await Agreement.create(mockAgreement({ agreementReference: 'agreement1', dataReference: '/unknown/123' }))
+      await JobModel.create({ name: '/unknown/123', agreementReference: 'agreement1', type: UNPIN_JOB_TYPE, state: JobState.BACKOFF, retry: '1/3' })
+
+      await manager.resume()
+      await jobsManager.idle()
+
+      const jobs = await JobModel.findAll()
+      expect(jobs.map(job => job.state)).to.eql([JobState.INTERRUPTED])
+    })
+  })
+
+  describe('Capacity', () => {
+    beforeEach(async () => {
+      await Agreement.bulkCreate([
+        mockAgreement({ agreementReference: 'agreement1', size: 30 }),
+        mockAgreement({ agreementReference: 'agreement2', size: 50 }),
+        mockAgreement({ agreementReference: 'inactive', size: 50, isActive: false })
+      ])
+      await PinReferenceModel.bulkCreate([
+        { dataReference: HASH, agreementReference: 'agreement1' },
+        { dataReference: HASH, agreementReference: 'inactive' }
+      ])
+    })
+
+    it('should skip the check when total capacity is not known', async () => {
+      await manager.pin(HASH, new BigNumber(1000), 'agreement2')
+
+      expect(pinStub).to.be.calledOnce()
+      expect(channelSpy).not.to.be.called()
+    })
+
+    it('should pin when Agreement fits into the capacity', async () => {
+      getObject().totalCapacity = '80'
+
+      await manager.pin(HASH, new BigNumber(50), 'agreement2')
+
+      expect(pinStub).to.be.calledOnce()
+      expect(channelSpy).not.to.be.called()
+      expect(await PinReferenceModel.count()).to.eql(3)
+    })
+
+    it('should not count Agreement being pinned again into committed capacity', async () => {
+      getObject().totalCapacity = '30'
+
+      await manager.pin(HASH, new BigNumber(30), 'agreement1')
+
+      expect(pinStub).to.be.calledOnce()
+    })
+
+    it('should refuse pinning and broadcast error when capacity would overflow', async () => {
+      getObject().totalCapacity = '79'
+
+      await manager.pin(HASH, new BigNumber(50), 'agreement2')
+
+      expect(pinStub).not.to.be.called()
+      expect(await PinReferenceModel.count()).to.eql(2)
+      expect(channelSpy).to.be.calledOnceWith(MessageCodesEnum.E_CAPACITY_EXCEEDED, {
+        agreementReference: 'agreement2',
+        hash: HASH,
+        size: 50,
+        committedCapacity: 30,
+        totalCapacity: 79
+      })
+    })
+  })
+})
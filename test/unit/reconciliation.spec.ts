@@ -0,0 +1,204 @@
+import chai from 'chai'
+import config from 'config'
+import dirtyChai from 'dirty-chai'
+import sinonChai from 'sinon-chai'
+import sinon from 'sinon'
+import type Sinon from 'sinon'
+import CID from 'cids'
+import BigNumber from 'bignumber.js'
+import { Sequelize } from 'sequelize-typescript'
+
+import { sequelizeFactory } from '../../src/sequelize'
+import { findOrphanedPins, getExpectedCids, removeOrphanedPins } from '../../src/reconciliation'
+import ReconcileCommand from '../../src/cli/reconcile'
+import { JobState } from '../../src/definitions'
+import { BytesInMb } from '../../src/utils'
+import type { IpfsClient } from '../../src/providers/ipfs'
+import Agreement from '../../src/models/agreement.model'
+import IpnsResolutionModel from '../../src/models/ipns-resolution.model'
+import JobModel from '../../src/models/job.model'
+import { mockAgreement } from '../fake-marketplace-service'
+
+chai.use(sinonChai)
+chai.use(dirtyChai)
+const expect = chai.expect
+
+const ACTIVE = 'QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o'
+const RETAINED = 'QmUNLLsPACCz1vLxQVkXqqLX5R1X345qqfHbsf67hvA3Nn'
+const EXPIRED = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG'
+const IPNS_TARGET = 'QmbWqxBEKC3P8tqsKc98xmWNzrzDtRLMiMPL8wBuTGsMnR'
+const ALLOWED = 'QmPZ9gcCEpqKTo6aq61g2nXGUhM4iCL3ewB6LDXZCtioEB'
+const UNKNOWN = 'QmQPeNsJPyVWPFDVHb9yGWXU2J9NYvhQ5yJBsWbkWBqS7U'
+
+describe('Reconciliation', function () {
+  let sequelize: Sequelize
+  let originalAllowList: string[]
+  let ipfs: IpfsClient
+  let statStub: Sinon.SinonStub
+  let rmStub: Sinon.SinonStub
+  let gcStub: Sinon.SinonStub
+
+  before(async () => {
+    sequelize = await sequelizeFactory()
+  })
+
+  beforeEach(async () => {
+    await sequelize.sync({ force: true })
+    await Agreement.bulkCreate([
+      mockAgreement({ agreementReference: 'active', dataReference: `/ipfs/${ACTIVE}`, ipfsNode: 'node1' }),
+      mockAgreement({
+        agreementReference: 'retained',
+        dataReference: `/ipfs/${new CID(RETAINED).toV1().toString()}`,
+        isActive: false,
+        retainedUntil: new Date(Date.now() + 1000)
+      }),
+      mockAgreement({ agreementReference: 'expired', dataReference: `/ipfs/${EXPIRED}`, isActive: false }),
+      mockAgreement({
+        agreementReference: 'ipns',
+        dataReference: '/ipns/k51qzi5uqu5dlvj2baxnqndepeb86cbk3ng7n3i46uzyxzyqj2xjonzllnv0v8',
+        ipfsNode: 'node1'
+      })
+    ])
+    await IpnsResolutionModel.create({
+      agreementReference: 'ipns',
+      name: '/ipns/k51qzi5uqu5dlvj2baxnqndepeb86cbk3ng7n3i46uzyxzyqj2xjonzllnv0v8',
+      target: `/ipfs/${IPNS_TARGET}`,
+      isPinned: true,
+      resolvedAt: new Date()
+    })
+
+    // @ts-ignore: Config is not typed
+    originalAllowList = config.reconciliation.allowList
+    // @ts-ignore: Config is not typed
+    config.reconciliation.allowList = [ALLOWED, 'not a cid']
+
+    statStub = sinon.stub().resolves({ CumulativeSize: 2 * BytesInMb })
+    statStub.withArgs(sinon.match((cid: CID) => cid.toString() === UNKNOWN)).rejects(new Error('timeout'))
+    rmStub = sinon.stub().resolves()
+    gcStub = sinon.stub().returns((async function * () { yield { cid: new CID(EXPIRED) } })())
+    ipfs = {
+      pin: {
+        ls: async function * () {
+          for (const hash of [ACTIVE, RETAINED, EXPIRED, IPNS_TARGET, ALLOWED, UNKNOWN]) {
+            yield { cid: new CID(hash), type: 'recursive' }
+          }
+        },
+        rm: rmStub
+      },
+      object: { stat: statStub },
+      repo: { gc: gcStub }
+    } as unknown as IpfsClient
+  })
+
+  afterEach(() => {
+    // @ts-ignore: Config is not typed
+    config.reconciliation.allowList = originalAllowList
+  })
+
+  it('should expect data of retained Agreements, pinned IPNS targets and allowed CIDs', async () => {
+    const expected = await getExpectedCids()
+
+    expect(Array.from(expected)).to.have.members(
+      [ACTIVE, RETAINED, IPNS_TARGET, ALLOWED].map(hash => new CID(hash).toV1().toString())
+    )
+  })
+
+  it('should expect only data of Agreements assigned to the IPFS node', async () => {
+    expect(Array.from(await getExpectedCids(['node1']))).to.have.members(
+      [ACTIVE, IPNS_TARGET, ALLOWED].map(hash => new CID(hash).toV1().toString())
+    )
+    expect(Array.from(await getExpectedCids([null]))).to.have.members(
+      [RETAINED, ALLOWED].map(hash => new CID(hash).toV1().toString())
+    )
+    expect(Array.from(await getExpectedCids(['node2']))).to.have.members(
+      [ALLOWED].map(hash => new CID(hash).toV1().toString())
+    )
+    expect(Array.from(await getExpectedCids(['node1', null]))).to.have.members(
+      [ACTIVE, RETAINED, IPNS_TARGET, ALLOWED].map(hash => new CID(hash).toV1().toString())
+    )
+  })
+
+  it('should expect data of queued and running pinning Jobs on every IPFS node', async () => {
+    await JobModel.bulkCreate([
+      { name: `/ipfs/${EXPIRED}`, type: 'ipfs - pin', state: JobState.RUNNING, agreementReference: 'expired' },
+      { name: `/ipfs/${UNKNOWN}`, type: 'ipfs - rebalance', state: JobState.BACKOFF, agreementReference: 'active' },
+      { name: `/ipfs/${IPNS_TARGET}`, type: 'ipfs - pin', state: JobState.FINISHED, agreementReference: 'ipns' },
+      { name: `/ipfs/${ALLOWED}`, type: 'unpin', state: JobState.CREATED, agreementReference: 'expired' }
+    ])
+
+    expect(Array.from(await getExpectedCids(['node2']))).to.have.members(
+      [EXPIRED, UNKNOWN, ALLOWED].map(hash => new CID(hash).toV1().toString())
+    )
+  })
+
+  it('should report pins of Agreements assigned to other IPFS node as orphaned', async () => {
+    const orphans = await findOrphanedPins(ipfs, [null])
+
+    expect(orphans.map(orphan => orphan.cid.toString())).to.eql([ACTIVE, EXPIRED, IPNS_TARGET, UNKNOWN])
+  })
+
+  it('should report orphaned pins with their sizes', async () => {
+    const orphans = await findOrphanedPins(ipfs)
+
+    expect(orphans.map(orphan => orphan.cid.toString())).to.eql([EXPIRED, UNKNOWN])
+    expect(orphans[0].size).to.eql(new BigNumber(2))
+    expect(orphans[1].size).to.be.null()
+  })
+
+  it('should unpin orphaned pins and run repo gc', async () => {
+    rmStub.onSecondCall().rejects(new Error('not pinned'))
+    const orphans = await findOrphanedPins(ipfs)
+
+    expect(await removeOrphanedPins(ipfs, orphans)).to.eql(1)
+    expect(gcStub).not.to.be.called()
+
+    expect(await removeOrphanedPins(ipfs, orphans, { gc: true })).to.eql(2)
+    expect(rmStub).to.have.callCount(4)
+    expect(rmStub.firstCall.args[0].toString()).to.eql(EXPIRED)
+    expect(gcStub).to.be.calledOnce()
+  })
+
+  describe('IPFS nodes', () => {
+    let originalIpfs: Record<string, unknown>
+
+    const scannedNodes = (): Array<[string, Array<string | null> | undefined]> =>
+      ReconcileCommand.getIpfsNodes().map(([name, , ipfsNodes]) => [name, ipfsNodes])
+
+    const configure = (url: string, nodes: Array<[string, string]>): void => {
+      // @ts-ignore: Config is not typed
+      config.ipfs = {
+        ...originalIpfs,
+        clientOptions: { url },
+        nodes: nodes.map(([name, nodeUrl]) => ({ name, clientOptions: { url: nodeUrl } }))
+      }
+    }
+
+    before(() => {
+      // @ts-ignore: Config is not typed
+      originalIpfs = config.ipfs
+    })
+
+    after(() => {
+      // @ts-ignore: Config is not typed
+      config.ipfs = originalIpfs
+    })
+
+    it('should scan only the default node without sharding', () => {
+      configure('http://localhost:5001', [])
+
+      expect(scannedNodes()).to.eql([['default', undefined]])
+    })
+
+    it('should scan the default node separately when it is not one of the shards', () => {
+      configure('http://localhost:5001', [['disk1', 'http://localhost:5002'], ['disk2', 'http://localhost:5003']])
+
+      expect(scannedNodes()).to.eql([['default', [null]], ['disk1', ['disk1']], ['disk2', ['disk2']]])
+    })
+
+    it('should scan the default node as the shard with the same URL', () => {
+      configure('http://localhost:5001', [['disk1', 'http://localhost:5001/'], ['disk2', 'http://localhost:5002']])
+
+      expect(scannedNodes()).to.eql([['disk1', ['disk1', null]], ['disk2', ['disk2']]])
+    })
+  })
+})
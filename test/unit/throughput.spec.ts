@@ -0,0 +1,98 @@
+import chai from 'chai'
+import config from 'config'
+import dirtyChai from 'dirty-chai'
+import BigNumber from 'bignumber.js'
+import { Sequelize } from 'sequelize-typescript'
+
+import { sequelizeFactory } from '../../src/sequelize'
+import { estimateTimeout, getEffectiveRate, getThroughputStats, percentileOf, RateSource } from '../../src/throughput'
+import { JobState, PinTimeoutOptions } from '../../src/definitions'
+import { BytesInMb } from '../../src/utils'
+import JobModel from '../../src/models/job.model'
+import Agreement from '../../src/models/agreement.model'
+import { mockAgreement } from '../fake-marketplace-service'
+
+chai.use(dirtyChai)
+const expect = chai.expect
+
+const TYPE = 'ipfs - pin'
+
+describe('Throughput', function () {
+  let sequelize: Sequelize
+  let originalOptions: PinTimeoutOptions
+
+  const createJobs = (rates: Array<number | null>, state = JobState.FINISHED): Promise<JobModel[]> =>
+    JobModel.bulkCreate(rates.map((throughput, i) => ({
+      name: `/ipfs/${i}`,
+      agreementReference: 'agreement',
+      type: TYPE,
+      state,
+      throughput: throughput === null ? null : throughput * BytesInMb,
+      finish: new Date(Date.now() - (rates.length - i) * 1000)
+    })))
+
+  before(async () => {
+    sequelize = await sequelizeFactory()
+  })
+
+  beforeEach(async () => {
+    await sequelize.sync({ force: true })
+    await Agreement.create(mockAgreement({ agreementReference: 'agreement' }))
+
+    // @ts-ignore: Config is not typed
+    originalOptions = { ...config.ipfs.pinTimeout }
+  })
+
+  afterEach(() => {
+    // @ts-ignore: Config is not typed
+    Object.assign(config.ipfs.pinTimeout, originalOptions)
+  })
+
+  it('should compute percentile using nearest rank', () => {
+    const values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
+
+    expect(percentileOf(values, 0)).to.eql(1)
+    expect(percentileOf(values, 10)).to.eql(1)
+    expect(percentileOf(values, 11)).to.eql(2)
+    expect(percentileOf(values, 50)).to.eql(5)
+    expect(percentileOf(values, 100)).to.eql(10)
+    expect(percentileOf([], 50)).to.be.null()
+  })
+
+  it('should compute stats only from the most recent finished Jobs', async () => {
+    // @ts-ignore: Config is not typed
+    Object.assign(config.ipfs.pinTimeout, { window: 4, percentile: 25 })
+    await createJobs([10, 1, null, 2, 3, 4])
+    await createJobs([0.1], JobState.ERRORED)
+
+    const stats = await getThroughputStats(TYPE)
+
+    expect(stats.samples).to.eql(4)
+    expect(stats.min).to.eql(BytesInMb)
+    expect(stats.percentile).to.eql(BytesInMb)
+    expect(stats.max).to.eql(4 * BytesInMb)
+  })
+
+  it('should use default rate until there are enough samples', async () => {
+    // @ts-ignore: Config is not typed
+    Object.assign(config.ipfs.pinTimeout, { minSamples: 3, defaultRate: 0.5, percentile: 50 })
+    await createJobs([1, 2])
+    expect(getEffectiveRate(await getThroughputStats(TYPE))).to.eql({ rate: 0.5 * BytesInMb, source: RateSource.DEFAULT })
+
+    await createJobs([3])
+    expect(getEffectiveRate(await getThroughputStats(TYPE))).to.eql({ rate: 2 * BytesInMb, source: RateSource.MEASURED })
+
+    // @ts-ignore: Config is not typed
+    config.ipfs.pinTimeout.rate = 5
+    expect(getEffectiveRate(await getThroughputStats(TYPE))).to.eql({ rate: 5 * BytesInMb, source: RateSource.CONFIGURED })
+  })
+
+  it('should estimate timeout within the configured bounds', async () => {
+    // @ts-ignore: Config is not typed
+    Object.assign(config.ipfs.pinTimeout, { rate: 1, minTimeout: '1m', maxTimeout: '1h' })
+
+    expect(await estimateTimeout(TYPE, new BigNumber(120 * BytesInMb))).to.eql(120000)
+    expect(await estimateTimeout(TYPE, new BigNumber(BytesInMb))).to.eql(60000)
+    expect(await estimateTimeout(TYPE, new BigNumber(10000 * BytesInMb))).to.eql(3600000)
+  })
+})